@@ -0,0 +1,287 @@
+/**
+ * Command-line parsing for opencode-worktree
+ * Commands are described declaratively (see commands/specs.ts) so the parser,
+ * help text and shell completion all stay in sync
+ */
+
+// What a value completes to in the generated shell completion scripts
+export type CompletionKind = "worktrees" | "branches" | "shells" | "directories";
+
+export type OptionSpec = {
+  name: string; // Long name without dashes, e.g. "base" for --base
+  short?: string; // Single letter, e.g. "h" for -h
+  value?: string; // Value placeholder for options that take one, e.g. "ref"
+  description: string;
+  complete?: CompletionKind;
+};
+
+export type ArgumentSpec = {
+  name: string;
+  required: boolean;
+  choices?: string[];
+  complete?: CompletionKind;
+};
+
+export type CommandSpec = {
+  name: string;
+  summary: string;
+  description?: string;
+  args: ArgumentSpec[];
+  options: OptionSpec[];
+  passthrough?: string; // Placeholder for arguments after `--`, e.g. "command"
+  hidden?: boolean; // Internal commands are omitted from help and completion
+};
+
+export type GlobalOptions = {
+  help: boolean;
+  version: boolean;
+  config?: string;
+  repo?: string;
+  updateCheck: boolean;
+  verbose: boolean;
+};
+
+export type OptionValues = Record<string, string | boolean | undefined>;
+
+export type ParsedArgs = {
+  command: CommandSpec; // The default (TUI) command when no subcommand is given
+  global: GlobalOptions;
+  options: OptionValues;
+  args: string[];
+  passthrough: string[];
+};
+
+/**
+ * Thrown for invalid command-line usage; reported with exit code 2
+ */
+export class UsageError extends Error {
+  constructor(
+    message: string,
+    public command?: CommandSpec,
+  ) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+export const GLOBAL_OPTIONS: OptionSpec[] = [
+  { name: "help", short: "h", description: "Show help" },
+  { name: "version", short: "v", description: "Show version" },
+  {
+    name: "config",
+    value: "file",
+    description: "Use this config file instead of ~/.config/opencode-worktree/config.json",
+  },
+  {
+    name: "repo",
+    value: "path",
+    description: "Run against the repository at <path> instead of the current directory",
+    complete: "directories",
+  },
+  { name: "no-update-check", description: "Skip the npm update check" },
+  { name: "verbose", description: "Print diagnostic output to stderr" },
+];
+
+const findOption = (
+  specs: OptionSpec[],
+  token: string,
+): OptionSpec | undefined => {
+  if (token.startsWith("--")) {
+    const name = token.slice(2);
+    return specs.find((spec) => spec.name === name);
+  }
+  const short = token.slice(1);
+  return specs.find((spec) => spec.short === short);
+};
+
+/**
+ * Parse argv (without the node/bun executable and script) against the
+ * given command specs
+ * Global options are accepted before and after the subcommand
+ */
+export const parseArgs = (
+  argv: string[],
+  commands: CommandSpec[],
+  defaultCommand: CommandSpec,
+): ParsedArgs => {
+  let command: CommandSpec | null = null;
+  const globalValues: OptionValues = {};
+  const options: OptionValues = {};
+  const args: string[] = [];
+  let passthrough: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const token = argv[i];
+
+    if (token === "--") {
+      passthrough = argv.slice(i + 1);
+      break;
+    }
+
+    if (token.startsWith("-") && token !== "-") {
+      // Support --name=value as well as --name value
+      const eqIndex = token.indexOf("=");
+      const flag = eqIndex > 0 && token.startsWith("--") ? token.slice(0, eqIndex) : token;
+      const inlineValue = eqIndex > 0 && token.startsWith("--") ? token.slice(eqIndex + 1) : undefined;
+
+      const current = command || defaultCommand;
+      const commandOption = findOption(current.options, flag);
+      const globalOption = commandOption ? undefined : findOption(GLOBAL_OPTIONS, flag);
+      const spec = commandOption || globalOption;
+
+      if (!spec) {
+        throw new UsageError(`Unknown option: ${flag}`, command || undefined);
+      }
+
+      const target = commandOption ? options : globalValues;
+      if (spec.value) {
+        const value = inlineValue ?? argv[++i];
+        if (value === undefined || (inlineValue === undefined && value.startsWith("-"))) {
+          throw new UsageError(
+            `Option --${spec.name} requires a <${spec.value}> value.`,
+            command || undefined,
+          );
+        }
+        target[spec.name] = value;
+      } else {
+        if (inlineValue !== undefined) {
+          throw new UsageError(
+            `Option --${spec.name} does not take a value.`,
+            command || undefined,
+          );
+        }
+        target[spec.name] = true;
+      }
+      continue;
+    }
+
+    // The first bare word may name a subcommand
+    if (!command && args.length === 0) {
+      const match = commands.find((cmd) => cmd.name === token);
+      if (match) {
+        command = match;
+        continue;
+      }
+    }
+
+    args.push(token);
+  }
+
+  const resolved = command || defaultCommand;
+
+  const global: GlobalOptions = {
+    help: globalValues.help === true,
+    version: globalValues.version === true,
+    config: globalValues.config as string | undefined,
+    repo: globalValues.repo as string | undefined,
+    updateCheck: globalValues["no-update-check"] !== true,
+    verbose: globalValues.verbose === true,
+  };
+
+  // --help and --version short-circuit argument validation
+  if (!global.help && !global.version) {
+    validateArgs(resolved, args, passthrough);
+  }
+
+  return { command: resolved, global, options, args, passthrough };
+};
+
+const validateArgs = (
+  command: CommandSpec,
+  args: string[],
+  passthrough: string[],
+): void => {
+  if (args.length > command.args.length) {
+    throw new UsageError(`Unexpected argument: ${args[command.args.length]}`, command);
+  }
+
+  command.args.forEach((spec, i) => {
+    const value = args[i];
+    if (value === undefined) {
+      if (spec.required) {
+        throw new UsageError(`Missing required argument <${spec.name}>.`, command);
+      }
+      return;
+    }
+    if (spec.choices && !spec.choices.includes(value)) {
+      throw new UsageError(
+        `Invalid <${spec.name}>: ${value} (expected ${spec.choices.join(", ")})`,
+        command,
+      );
+    }
+  });
+
+  if (command.passthrough && passthrough.length === 0) {
+    throw new UsageError(`Missing <${command.passthrough}> after --.`, command);
+  }
+  if (!command.passthrough && passthrough.length > 0) {
+    throw new UsageError("Unexpected arguments after --.", command);
+  }
+};
+
+const formatOptionLabel = (spec: OptionSpec): string => {
+  const short = spec.short ? `-${spec.short}, ` : "";
+  const value = spec.value ? ` <${spec.value}>` : "";
+  return `${short}--${spec.name}${value}`;
+};
+
+const formatOptionRows = (specs: OptionSpec[]): string[] => {
+  const labels = specs.map(formatOptionLabel);
+  const width = Math.max(...labels.map((label) => label.length));
+  return specs.map(
+    (spec, i) => `  ${labels[i].padEnd(width)}  ${spec.description}`,
+  );
+};
+
+/**
+ * One-line usage synopsis for a command
+ */
+export const formatUsage = (binName: string, command: CommandSpec): string => {
+  const parts = [binName];
+  if (command.name) {
+    parts.push(command.name);
+  }
+  for (const arg of command.args) {
+    const label = arg.choices ? arg.choices.join("|") : arg.name;
+    parts.push(arg.required ? `<${label}>` : `[${label}]`);
+  }
+  if (command.options.length > 0) {
+    parts.push("[options]");
+  }
+  if (command.passthrough) {
+    parts.push(`-- <${command.passthrough}>`);
+  }
+  return `Usage: ${parts.join(" ")}`;
+};
+
+/**
+ * Full help text for a command; the default command also lists subcommands
+ */
+export const formatHelp = (
+  binName: string,
+  command: CommandSpec,
+  commands: CommandSpec[],
+): string => {
+  const lines = [formatUsage(binName, command), ""];
+  lines.push(command.description || command.summary);
+
+  if (!command.name) {
+    const visible = commands.filter((cmd) => !cmd.hidden);
+    const width = Math.max(...visible.map((cmd) => cmd.name.length));
+    lines.push("", "Commands:");
+    for (const cmd of visible) {
+      lines.push(`  ${cmd.name.padEnd(width)}  ${cmd.summary}`);
+    }
+  }
+
+  if (command.options.length > 0) {
+    lines.push("", "Options:", ...formatOptionRows(command.options));
+  }
+  lines.push("", "Global options:", ...formatOptionRows(GLOBAL_OPTIONS));
+
+  if (!command.name) {
+    lines.push("", `Run '${binName} <command> --help' for command-specific help.`);
+  }
+
+  return lines.join("\n");
+};
@@ -1,4 +1,30 @@
-import { runApp } from "./ui.js";
+import { existsSync } from "node:fs";
+import { resolve } from "node:path";
+import { runApp, type AppOptions } from "./ui.js";
+import {
+  formatHelp,
+  formatUsage,
+  parseArgs,
+  UsageError,
+  type ParsedArgs,
+} from "./args.js";
+import { setGlobalConfigPath } from "./config.js";
+import { logVerbose, setVerbose } from "./log.js";
+import { BIN_NAME, COMMANDS, DEFAULT_COMMAND } from "./commands/specs.js";
+import { EXIT_FAILURE, EXIT_SUCCESS, EXIT_USAGE } from "./commands/exit-codes.js";
+import { runListCommand } from "./commands/list.js";
+import { runStatusCommand } from "./commands/status.js";
+import { runCreateCommand } from "./commands/create.js";
+import { runRemoveCommand } from "./commands/remove.js";
+import { runPruneCommand } from "./commands/prune.js";
+import { runLockCommand } from "./commands/lock.js";
+import { runMoveCommand } from "./commands/move.js";
+import { runRepairCommand } from "./commands/repair.js";
+import { runExecCommand } from "./commands/exec.js";
+import { runDoctorCommand } from "./commands/doctor.js";
+import { runShellInitCommand } from "./commands/shell-init.js";
+import { runCompleteCommand, runCompletionCommand } from "./commands/completion.js";
+import { canRenderOnStdout, runOnTerminal } from "./terminal.js";
 
 // Build-time injected constants (defined in script/build.ts)
 // Use typeof check to provide fallbacks for dev mode (bun run dev)
@@ -10,11 +36,142 @@ const pkg = {
   version: typeof __PACKAGE_VERSION__ !== "undefined" ? __PACKAGE_VERSION__ : "dev",
 };
 
-// Accept optional path argument: opencode-worktree [path]
-const targetPath = process.argv[2] || process.cwd();
+/**
+ * Run a non-interactive subcommand; these print their output and exit
+ * without needing a TTY
+ */
+const runCommand = (
+  parsed: ParsedArgs,
+  cwd: string,
+): number | Promise<number> => {
+  switch (parsed.command.name) {
+    case "list":
+      return runListCommand(cwd, parsed);
+    case "status":
+      return runStatusCommand(cwd, parsed);
+    case "create":
+      return runCreateCommand(cwd, parsed);
+    case "remove":
+    case "unlink":
+      return runRemoveCommand(cwd, parsed);
+    case "prune":
+      return runPruneCommand(cwd, parsed);
+    case "lock":
+    case "unlock":
+      return runLockCommand(cwd, parsed);
+    case "move":
+      return runMoveCommand(cwd, parsed);
+    case "repair":
+      return runRepairCommand(cwd, parsed);
+    case "exec":
+      return runExecCommand(cwd, parsed);
+    case "doctor":
+      return runDoctorCommand(cwd, parsed);
+    case "shell-init":
+      return runShellInitCommand(parsed);
+    case "completion":
+      return runCompletionCommand(parsed);
+    case "__complete":
+      return runCompleteCommand(cwd, parsed);
+    default:
+      throw new Error(`Unhandled command: ${parsed.command.name}`);
+  }
+};
+
+/**
+ * Start the TUI; when only the choice is printed (--print-path, pick) and
+ * stdout is captured, render on the terminal from a child process instead
+ */
+const startApp = (targetPath: string, options: AppOptions): Promise<number> => {
+  if ((options.printPath || options.pick) && !canRenderOnStdout()) {
+    return runOnTerminal(process.argv.slice(2));
+  }
+
+  return runApp(targetPath, pkg, options).then(
+    // The TUI exits the process itself once the user is done
+    () => new Promise<number>(() => {}),
+    (error: unknown) => {
+      console.error("Failed to start OpenTUI worktree selector.");
+      console.error(error);
+      return EXIT_FAILURE;
+    },
+  );
+};
+
+/**
+ * Start the TUI: opencode-worktree [--print-path] [path]
+ */
+const runTui = (parsed: ParsedArgs, cwd: string): Promise<number> => {
+  const [pathArg] = parsed.args;
+  if (pathArg && parsed.global.repo) {
+    throw new UsageError(
+      "Pass the repository either as [path] or with --repo, not both.",
+    );
+  }
+  if (pathArg && !existsSync(pathArg)) {
+    throw new UsageError(`Unknown command or path: ${pathArg}`);
+  }
+
+  return startApp(pathArg ? resolve(pathArg) : cwd, {
+    printPath: parsed.options["print-path"] === true,
+    updateCheck: parsed.global.updateCheck,
+  });
+};
+
+/**
+ * Pick a worktree and print it: opencode-worktree pick [--format <template>]
+ * Exits 1 when the picker is cancelled
+ */
+const runPick = (parsed: ParsedArgs, cwd: string): Promise<number> => {
+  return startApp(cwd, {
+    pick: true,
+    format: parsed.options.format as string | undefined,
+    updateCheck: parsed.global.updateCheck,
+  });
+};
+
+const main = async (): Promise<number> => {
+  const parsed = parseArgs(process.argv.slice(2), COMMANDS, DEFAULT_COMMAND);
+
+  if (parsed.global.help) {
+    console.log(formatHelp(BIN_NAME, parsed.command, COMMANDS));
+    return EXIT_SUCCESS;
+  }
+  if (parsed.global.version) {
+    console.log(pkg.version);
+    return EXIT_SUCCESS;
+  }
+
+  setVerbose(parsed.global.verbose);
+  if (parsed.global.config) {
+    setGlobalConfigPath(parsed.global.config);
+  }
+
+  const cwd = parsed.global.repo ? resolve(parsed.global.repo) : process.cwd();
+  logVerbose(`Command: ${parsed.command.name || "(tui)"}`);
+  logVerbose(`Working directory: ${cwd}`);
+
+  if (!parsed.command.name) {
+    return runTui(parsed, cwd);
+  }
+  if (parsed.command.name === "pick") {
+    return runPick(parsed, cwd);
+  }
+  return runCommand(parsed, cwd);
+};
 
-runApp(targetPath, pkg).catch((error: unknown) => {
-  console.error("Failed to start OpenTUI worktree selector.");
-  console.error(error);
-  process.exit(1);
-});
+main()
+  .then((exitCode) => process.exit(exitCode))
+  .catch((error: unknown) => {
+    if (error instanceof UsageError) {
+      const command = error.command || DEFAULT_COMMAND;
+      console.error(`Error: ${error.message}`);
+      console.error(formatUsage(BIN_NAME, command));
+      console.error(
+        `Run '${BIN_NAME}${command.name ? ` ${command.name}` : ""} --help' for details.`,
+      );
+      process.exit(EXIT_USAGE);
+    }
+    console.error(error);
+    process.exit(EXIT_FAILURE);
+  });
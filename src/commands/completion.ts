@@ -0,0 +1,294 @@
+import { listLocalBranches, listWorktrees, resolveRepoRoot } from "../git.js";
+import {
+  GLOBAL_OPTIONS,
+  type CompletionKind,
+  type OptionSpec,
+  type ParsedArgs,
+} from "../args.js";
+import { BIN_NAME, COMMANDS, DEFAULT_COMMAND, SHELLS } from "./specs.js";
+import { EXIT_FAILURE, EXIT_SUCCESS } from "./exit-codes.js";
+
+// Completion scripts are generated from the command specs, so new commands
+// and flags show up without touching this file
+const VISIBLE_COMMANDS = COMMANDS.filter((cmd) => !cmd.hidden);
+
+const flagsOf = (options: OptionSpec[]): string =>
+  [...options, ...GLOBAL_OPTIONS].map((spec) => `--${spec.name}`).join(" ");
+
+// Global options that consume the next word, which is then not a subcommand
+const GLOBAL_VALUE_FLAGS = GLOBAL_OPTIONS.filter((spec) => spec.value).map(
+  (spec) => `--${spec.name}`,
+);
+
+// Each returns a shell expression producing candidate words, or null when
+// there is nothing (or only the shell's default completion) to offer
+
+const bashWords = (kind: CompletionKind | undefined): string | null => {
+  if (kind === "shells") return SHELLS.join(" ");
+  if (kind === "worktrees" || kind === "branches") {
+    return `$(${BIN_NAME} __complete ${kind} 2>/dev/null)`;
+  }
+  return null;
+};
+
+const zshWords = (kind: CompletionKind | undefined): string | null => {
+  if (kind === "shells") return SHELLS.join(" ");
+  if (kind === "worktrees" || kind === "branches") {
+    return `\${(f)"$(${BIN_NAME} __complete ${kind} 2>/dev/null)"}`;
+  }
+  return null;
+};
+
+const fishWords = (kind: CompletionKind | undefined): string | null => {
+  if (kind === "shells") return SHELLS.join(" ");
+  if (kind === "worktrees" || kind === "branches") {
+    return `(${BIN_NAME} __complete ${kind} 2>/dev/null)`;
+  }
+  if (kind === "directories") return "(__fish_complete_directories)";
+  return null;
+};
+
+const buildBashScript = (): string => {
+  const words = bashWords;
+
+  const valueCase = (prefix: string, spec: OptionSpec): string => {
+    const candidates = words(spec.complete);
+    if (spec.complete === "directories") {
+      return `    ${prefix}--${spec.name}) COMPREPLY=($(compgen -d -- "$cur")); return ;;`;
+    }
+    return candidates
+      ? `    ${prefix}--${spec.name}) COMPREPLY=($(compgen -W "${candidates}" -- "$cur")); return ;;`
+      : `    ${prefix}--${spec.name}) COMPREPLY=(); return ;;`;
+  };
+
+  const commandValueCases = VISIBLE_COMMANDS.flatMap((cmd) =>
+    cmd.options.filter((spec) => spec.value).map((spec) => valueCase(`${cmd.name}:`, spec)),
+  );
+  const globalValueCases = GLOBAL_OPTIONS.filter((spec) => spec.value).map((spec) =>
+    valueCase("*:", spec),
+  );
+
+  const commandCases = VISIBLE_COMMANDS.map((cmd) => {
+    const candidates = words(cmd.args[0]?.complete);
+    const argsLine = candidates
+      ? `COMPREPLY=($(compgen -W "${candidates}" -- "$cur"))`
+      : "COMPREPLY=()";
+    return [
+      `    ${cmd.name})`,
+      `      if [[ "$cur" == -* ]]; then`,
+      `        COMPREPLY=($(compgen -W "${flagsOf(cmd.options)}" -- "$cur"))`,
+      "      else",
+      `        ${argsLine}`,
+      "      fi",
+      "      ;;",
+    ].join("\n");
+  });
+
+  const commandNames = VISIBLE_COMMANDS.map((cmd) => cmd.name).join(" ");
+
+  return [
+    `# ${BIN_NAME} bash completion`,
+    "_opencode_worktree() {",
+    "  local cur prev cmd word skip",
+    '  cur="${COMP_WORDS[COMP_CWORD]}"',
+    '  prev="${COMP_WORDS[COMP_CWORD-1]}"',
+    "",
+    "  # The subcommand is the first word that isn't an option or its value",
+    '  cmd=""',
+    '  skip=""',
+    '  for word in "${COMP_WORDS[@]:1:COMP_CWORD-1}"; do',
+    '    if [ -n "$skip" ]; then skip=""; continue; fi',
+    '    case "$word" in',
+    `      ${GLOBAL_VALUE_FLAGS.join("|")}) skip=1 ;;`,
+    "      -*) ;;",
+    '      *) cmd="$word"; break ;;',
+    "    esac",
+    "  done",
+    "",
+    '  case "$cmd:$prev" in',
+    ...commandValueCases,
+    ...globalValueCases,
+    "  esac",
+    "",
+    '  case "$cmd" in',
+    ...commandCases,
+    "    *)",
+    `      if [[ "$cur" == -* ]]; then`,
+    `        COMPREPLY=($(compgen -W "${flagsOf(DEFAULT_COMMAND.options)}" -- "$cur"))`,
+    "      else",
+    `        COMPREPLY=($(compgen -W "${commandNames}" -- "$cur") $(compgen -d -- "$cur"))`,
+    "      fi",
+    "      ;;",
+    "  esac",
+    "}",
+    `complete -o default -F _opencode_worktree ${BIN_NAME}`,
+  ].join("\n");
+};
+
+const buildZshScript = (): string => {
+  const words = zshWords;
+
+  const valueCase = (prefix: string, spec: OptionSpec): string => {
+    if (spec.complete === "directories") {
+      return `    ${prefix}--${spec.name}) _files -/; return ;;`;
+    }
+    const candidates = words(spec.complete);
+    return candidates
+      ? `    ${prefix}--${spec.name}) compadd -- ${candidates}; return ;;`
+      : `    ${prefix}--${spec.name}) return ;;`;
+  };
+
+  const commandValueCases = VISIBLE_COMMANDS.flatMap((cmd) =>
+    cmd.options.filter((spec) => spec.value).map((spec) => valueCase(`${cmd.name}:`, spec)),
+  );
+  const globalValueCases = GLOBAL_OPTIONS.filter((spec) => spec.value).map((spec) =>
+    valueCase("*:", spec),
+  );
+
+  const commandCases = VISIBLE_COMMANDS.map((cmd) => {
+    const candidates = words(cmd.args[0]?.complete);
+    return [
+      `    ${cmd.name})`,
+      `      if [[ "$PREFIX" == -* ]]; then`,
+      `        compadd -- ${flagsOf(cmd.options)}`,
+      "      else",
+      `        ${candidates ? `compadd -- ${candidates}` : "_files"}`,
+      "      fi",
+      "      ;;",
+    ].join("\n");
+  });
+
+  const describeEntries = VISIBLE_COMMANDS.map(
+    (cmd) => `    '${cmd.name}:${cmd.summary.replace(/'/g, "")}'`,
+  );
+
+  return [
+    `#compdef ${BIN_NAME}`,
+    `# ${BIN_NAME} zsh completion`,
+    "_opencode_worktree() {",
+    "  local -a subcommands",
+    "  local cmd word skip",
+    "  subcommands=(",
+    ...describeEntries,
+    "  )",
+    "",
+    "  # The subcommand is the first word that isn't an option or its value",
+    '  cmd=""',
+    '  skip=""',
+    '  for word in "${(@)words[2,CURRENT-1]}"; do',
+    '    if [[ -n "$skip" ]]; then skip=""; continue; fi',
+    '    case "$word" in',
+    `      ${GLOBAL_VALUE_FLAGS.join("|")}) skip=1 ;;`,
+    "      -*) ;;",
+    '      *) cmd="$word"; break ;;',
+    "    esac",
+    "  done",
+    "",
+    '  case "$cmd:$words[CURRENT-1]" in',
+    ...commandValueCases,
+    ...globalValueCases,
+    "  esac",
+    "",
+    '  case "$cmd" in',
+    ...commandCases,
+    "    *)",
+    `      if [[ "$PREFIX" == -* ]]; then`,
+    `        compadd -- ${flagsOf(DEFAULT_COMMAND.options)}`,
+    "      else",
+    "        _describe 'command' subcommands",
+    "        _files -/",
+    "      fi",
+    "      ;;",
+    "  esac",
+    "}",
+    `compdef _opencode_worktree ${BIN_NAME}`,
+  ].join("\n");
+};
+
+const buildFishScript = (): string => {
+  const words = fishWords;
+  const commandNames = VISIBLE_COMMANDS.map((cmd) => cmd.name).join(" ");
+
+  const optionLine = (condition: string, spec: OptionSpec): string => {
+    let line = `complete -c ${BIN_NAME} ${condition}-l ${spec.name}`;
+    if (spec.short) {
+      line += ` -s ${spec.short}`;
+    }
+    if (spec.value) {
+      const candidates = words(spec.complete);
+      line += candidates ? ` -x -a "${candidates}"` : " -x";
+    }
+    return `${line} -d '${spec.description.replace(/'/g, "")}'`;
+  };
+
+  const noSubcommand = `-n "not __fish_seen_subcommand_from ${commandNames}" `;
+  const lines = [
+    `# ${BIN_NAME} fish completion`,
+    `complete -c ${BIN_NAME} -f`,
+    ...GLOBAL_OPTIONS.map((spec) => optionLine("", spec)),
+    ...DEFAULT_COMMAND.options.map((spec) => optionLine(noSubcommand, spec)),
+    `complete -c ${BIN_NAME} ${noSubcommand}-a "(__fish_complete_directories)"`,
+  ];
+
+  for (const cmd of VISIBLE_COMMANDS) {
+    lines.push(
+      `complete -c ${BIN_NAME} -n __fish_use_subcommand -a ${cmd.name} -d '${cmd.summary.replace(/'/g, "")}'`,
+    );
+
+    const condition = `-n "__fish_seen_subcommand_from ${cmd.name}" `;
+    for (const spec of cmd.options) {
+      lines.push(optionLine(condition, spec));
+    }
+
+    const candidates = words(cmd.args[0]?.complete);
+    if (candidates) {
+      lines.push(`complete -c ${BIN_NAME} ${condition}-a "${candidates}"`);
+    }
+  }
+
+  return lines.join("\n");
+};
+
+/**
+ * Print a completion script for the given shell
+ * Usage: opencode-worktree completion bash|zsh|fish
+ */
+export const runCompletionCommand = (parsed: ParsedArgs): number => {
+  const shell = parsed.args[0];
+
+  if (shell === "bash") {
+    console.log(buildBashScript());
+  } else if (shell === "zsh") {
+    console.log(buildZshScript());
+  } else {
+    console.log(buildFishScript());
+  }
+  return EXIT_SUCCESS;
+};
+
+/**
+ * Hidden fast path used by the completion scripts
+ * Skips worktree metadata so it stays quick on every <Tab>
+ * Usage: opencode-worktree __complete worktrees|branches
+ */
+export const runCompleteCommand = async (
+  cwd: string,
+  parsed: ParsedArgs,
+): Promise<number> => {
+  const kind = parsed.args[0];
+  const repoRoot = await resolveRepoRoot(cwd);
+  if (!repoRoot) {
+    return EXIT_FAILURE;
+  }
+
+  if (kind === "worktrees") {
+    for (const wt of await listWorktrees(repoRoot, { enrich: false })) {
+      console.log(wt.branch || wt.path);
+    }
+  } else {
+    for (const branch of await listLocalBranches(repoRoot)) {
+      console.log(branch);
+    }
+  }
+  return EXIT_SUCCESS;
+};
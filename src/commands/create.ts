@@ -0,0 +1,134 @@
+import { resolveRepoRoot } from "../git.js";
+import { loadRepoConfig } from "../config.js";
+import { createWorktreeWithHook, describeCreatedWorktree } from "../create.js";
+import type { CreatedWorktree } from "../git.js";
+import { isCommandAvailable, runLaunchCommand } from "../opencode.js";
+import { UsageError, type ParsedArgs } from "../args.js";
+import { EXIT_FAILURE, EXIT_SUCCESS } from "./exit-codes.js";
+
+type CreateArgs = {
+  branchName: string;
+  baseRef?: string;
+  remote?: string;
+  trackRemote: boolean;
+  fetch: boolean;
+  runHook: boolean;
+  initSubmodules: boolean;
+  launch: boolean;
+  printPath: boolean;
+};
+
+const toCreateArgs = (parsed: ParsedArgs): CreateArgs => {
+  const branchName = parsed.args[0].trim();
+  if (!branchName) {
+    throw new UsageError("Branch name cannot be empty.", parsed.command);
+  }
+  if (parsed.options.remote && parsed.options["no-track"]) {
+    throw new UsageError(
+      "Options --remote and --no-track are mutually exclusive.",
+      parsed.command,
+    );
+  }
+
+  return {
+    branchName,
+    baseRef: parsed.options.base as string | undefined,
+    remote: parsed.options.remote as string | undefined,
+    trackRemote: !parsed.options["no-track"],
+    fetch: parsed.options.fetch === true,
+    runHook: !parsed.options["no-hook"],
+    initSubmodules: !parsed.options["no-submodules"],
+    launch: !parsed.options["no-launch"],
+    printPath: parsed.options["print-path"] === true,
+  };
+};
+
+/**
+ * Create a worktree the same way the TUI does: create, initialize submodules
+ * and run the post-create hook with streamed output, then optionally launch
+ * the configured command
+ * Usage: opencode-worktree create <branch> [--base <ref>] [--remote <name>] [--fetch] [--no-track]
+ *        [--no-hook] [--no-submodules] [--no-launch] [--print-path]
+ */
+export const runCreateCommand = async (
+  cwd: string,
+  parsed: ParsedArgs,
+): Promise<number> => {
+  const options = toCreateArgs(parsed);
+
+  const repoRoot = await resolveRepoRoot(cwd);
+  if (!repoRoot) {
+    console.error("No git repository found in this directory.");
+    return EXIT_FAILURE;
+  }
+
+  const { config } = await loadRepoConfig(repoRoot);
+
+  // Keep stdout clean for the path when --print-path is used
+  const output = options.printPath ? process.stderr : process.stdout;
+
+  const result = await createWorktreeWithHook(
+    repoRoot,
+    config,
+    {
+      branchName: options.branchName,
+      baseRef: options.baseRef,
+      remote: options.remote,
+      trackRemote: options.trackRemote,
+      fetch: options.fetch,
+      runHook: options.runHook,
+      initSubmodules: options.initSubmodules,
+    },
+    {
+      onCreated: (created: CreatedWorktree) => {
+        output.write(`${describeCreatedWorktree(options.branchName, created)}\n`);
+      },
+      onSubmodulesStart: (command: string) => {
+        output.write(`Initializing submodules: ${command}\n`);
+      },
+      onHookStart: (command: string) => {
+        output.write(`Running post-create hook: ${command}\n`);
+      },
+      onHookOutput: (data: string) => {
+        output.write(data);
+      },
+    },
+  );
+
+  if (!result.success) {
+    console.error(`Failed to create worktree: ${result.error}`);
+    return EXIT_FAILURE;
+  }
+
+  if (result.submodules && !result.submodules.success) {
+    const exitMsg =
+      result.submodules.exitCode !== null
+        ? ` (exit code: ${result.submodules.exitCode})`
+        : "";
+    console.error(`Submodule update failed${exitMsg}`);
+    return EXIT_FAILURE;
+  }
+
+  if (result.hook && !result.hook.success) {
+    const exitMsg =
+      result.hook.exitCode !== null ? ` (exit code: ${result.hook.exitCode})` : "";
+    console.error(`Hook failed${exitMsg}`);
+    return EXIT_FAILURE;
+  }
+
+  if (options.printPath) {
+    console.log(result.path);
+  }
+
+  if (!options.launch) {
+    return EXIT_SUCCESS;
+  }
+
+  const cmdName = config.launchCommand || "opencode";
+  if (!isCommandAvailable(cmdName)) {
+    console.error(`${cmdName} is not available on PATH.`);
+    return EXIT_FAILURE;
+  }
+
+  return runLaunchCommand(result.path, config.launchCommand);
+};
@@ -0,0 +1,181 @@
+import {
+  getGitVersion,
+  getIdentityRemote,
+  isBareRepository,
+  listPrunableWorktrees,
+  resolveRepoRoot,
+} from "../git.js";
+import {
+  inspectGlobalConfig,
+  loadGlobalConfig,
+  loadRepoConfig,
+  resolveRepoKey,
+} from "../config.js";
+import { findOnPath, getSystemOpenCommand } from "../opencode.js";
+import type { ParsedArgs } from "../args.js";
+import { EXIT_FAILURE, EXIT_SUCCESS } from "./exit-codes.js";
+
+type CheckStatus = "pass" | "warn" | "fail";
+
+type CheckResult = {
+  status: CheckStatus;
+  label: string;
+  detail: string;
+};
+
+const STATUS_ICONS: Record<CheckStatus, string> = {
+  pass: "✓",
+  warn: "!",
+  fail: "✗",
+};
+
+// `git worktree` needs 2.5; `list --porcelain` 2.7; move/remove 2.17
+const MIN_GIT_VERSION = [2, 17];
+// `git worktree repair` and `prunable` annotations need 2.30+
+const RECOMMENDED_GIT_VERSION = [2, 30];
+
+const compareVersions = (version: string, minimum: number[]): number => {
+  const parts = version.split(".").map((part) => parseInt(part, 10) || 0);
+  for (let i = 0; i < minimum.length; i++) {
+    const diff = (parts[i] ?? 0) - minimum[i];
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+const checkGit = async (): Promise<CheckResult> => {
+  const version = await getGitVersion();
+  if (!version) {
+    return { status: "fail", label: "git", detail: "git not found on PATH" };
+  }
+  if (compareVersions(version, MIN_GIT_VERSION) < 0) {
+    return {
+      status: "fail",
+      label: "git",
+      detail: `${version} is too old; worktree support needs ${MIN_GIT_VERSION.join(".")}+`,
+    };
+  }
+  if (compareVersions(version, RECOMMENDED_GIT_VERSION) < 0) {
+    return {
+      status: "warn",
+      label: "git",
+      detail: `${version}; upgrade to ${RECOMMENDED_GIT_VERSION.join(".")}+ for repair and prunable detection`,
+    };
+  }
+  return { status: "pass", label: "git", detail: version };
+};
+
+const checkCommand = (
+  label: string,
+  command: string,
+  missingStatus: CheckStatus,
+): CheckResult => {
+  const resolved = findOnPath(command);
+  return resolved
+    ? { status: "pass", label, detail: `${command} (${resolved})` }
+    : { status: missingStatus, label, detail: `${command} not found on PATH` };
+};
+
+/**
+ * Check the environment and configuration the TUI depends on
+ * Each check passes, warns or fails; any failure exits non-zero
+ * Usage: opencode-worktree doctor
+ */
+export const runDoctorCommand = async (
+  cwd: string,
+  _parsed: ParsedArgs,
+): Promise<number> => {
+  const results: CheckResult[] = [];
+  const report = (result: CheckResult): void => {
+    results.push(result);
+    console.log(`${STATUS_ICONS[result.status]} ${result.label}: ${result.detail}`);
+  };
+
+  report(await checkGit());
+
+  const configStatus = inspectGlobalConfig();
+  if (!configStatus.exists) {
+    report({
+      status: "pass",
+      label: "config",
+      detail: `${configStatus.path} (not found, using defaults)`,
+    });
+  } else if (configStatus.error) {
+    report({
+      status: "fail",
+      label: "config",
+      detail: `${configStatus.path} is not valid JSON: ${configStatus.error}`,
+    });
+  } else {
+    report({ status: "pass", label: "config", detail: configStatus.path });
+  }
+
+  const repoRoot = await resolveRepoRoot(cwd);
+  if (!repoRoot) {
+    report({
+      status: "fail",
+      label: "repository",
+      detail: `No git repository found in ${cwd}`,
+    });
+  } else {
+    const layout = (await isBareRepository(repoRoot)) ? " (bare repository)" : "";
+    report({ status: "pass", label: "repository", detail: `${repoRoot}${layout}` });
+
+    const globalConfig = loadGlobalConfig();
+    const preferredRemote = globalConfig.default.identityRemote || undefined;
+    const identityRemote = await getIdentityRemote(repoRoot, preferredRemote);
+    const repoKey = await resolveRepoKey(repoRoot);
+    if (!repoKey) {
+      report({
+        status: "warn",
+        label: "repo key",
+        detail: "No remotes; per-repo config can't be saved",
+      });
+    } else {
+      const hasEntry = globalConfig.repos[repoKey] !== undefined;
+      const entry = hasEntry ? "repo entry applied" : "no repo entry, using defaults";
+      const missingPreferred = preferredRemote && preferredRemote !== identityRemote;
+      report({
+        status: missingPreferred ? "warn" : "pass",
+        label: "repo key",
+        detail: missingPreferred
+          ? `${repoKey} (identityRemote '${preferredRemote}' not found, using ${identityRemote}; ${entry})`
+          : `${repoKey} (from ${identityRemote}, ${entry})`,
+      });
+    }
+
+    const { config } = await loadRepoConfig(repoRoot);
+    report(checkCommand("launchCommand", config.launchCommand || "opencode", "fail"));
+    report(
+      checkCommand(
+        "openCommand",
+        config.openCommand || getSystemOpenCommand(),
+        "warn",
+      ),
+    );
+
+    const prunable = await listPrunableWorktrees(repoRoot);
+    if (prunable.length === 0) {
+      report({ status: "pass", label: "worktrees", detail: "No stale worktrees" });
+    } else {
+      report({
+        status: "warn",
+        label: "worktrees",
+        detail: `${prunable.length} stale worktree(s); run 'opencode-worktree prune' to clean up`,
+      });
+      for (const entry of prunable) {
+        console.log(`    ${entry.name}: ${entry.reason}`);
+      }
+    }
+  }
+
+  const count = (status: CheckStatus): number =>
+    results.filter((result) => result.status === status).length;
+  const failed = count("fail");
+
+  console.log("");
+  console.log(
+    `Summary: ${count("pass")} passed, ${count("warn")} warnings, ${failed} failed`,
+  );
+  return failed > 0 ? EXIT_FAILURE : EXIT_SUCCESS;
+};
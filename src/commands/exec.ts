@@ -0,0 +1,175 @@
+import { existsSync } from "node:fs";
+import { basename } from "node:path";
+import { listWorktrees, resolveRepoRoot } from "../git.js";
+import { runShellCommand, type HookResult } from "../hooks.js";
+import { formatTable } from "../format.js";
+import { UsageError, type ParsedArgs } from "../args.js";
+import type { WorktreeInfo } from "../types.js";
+import { EXIT_FAILURE, EXIT_SUCCESS } from "./exit-codes.js";
+
+type ExecArgs = {
+  command: string;
+  dirtyOnly: boolean;
+  branchPattern: RegExp | null;
+  parallel: number;
+};
+
+/**
+ * Convert a shell-style glob (`*`, `?`) into an anchored RegExp
+ */
+const globToRegExp = (glob: string): RegExp => {
+  const source = glob
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`);
+};
+
+/**
+ * Quote an argument for /bin/sh unless it's obviously safe
+ */
+const shellQuote = (arg: string): string =>
+  /^[A-Za-z0-9_\-+=.,:/@%]+$/.test(arg) ? arg : `'${arg.replace(/'/g, "'\\''")}'`;
+
+const toExecArgs = (parsed: ParsedArgs): ExecArgs => {
+  // A single argument is run as a shell snippet (e.g. "git fetch && git status"),
+  // several are quoted and joined like a normal argv
+  const command =
+    parsed.passthrough.length === 1
+      ? parsed.passthrough[0]
+      : parsed.passthrough.map(shellQuote).join(" ");
+
+  const parallelValue = parsed.options.parallel as string | undefined;
+  const parallel = parallelValue === undefined ? 1 : Number(parallelValue);
+  if (!Number.isInteger(parallel) || parallel < 1) {
+    throw new UsageError(
+      `--parallel must be a positive integer, got '${parallelValue}'.`,
+      parsed.command,
+    );
+  }
+
+  const branch = parsed.options.branch as string | undefined;
+  return {
+    command,
+    dirtyOnly: parsed.options.dirty === true,
+    branchPattern: branch ? globToRegExp(branch) : null,
+    parallel,
+  };
+};
+
+const worktreeLabel = (worktree: WorktreeInfo): string =>
+  worktree.branch || `${basename(worktree.path)} (detached)`;
+
+/**
+ * Run the command in one worktree, prefixing each output line with the label
+ * Partial lines are held back until complete so parallel output doesn't interleave mid-line
+ */
+const runInWorktree = (
+  worktree: WorktreeInfo,
+  command: string,
+  prefix: string,
+): Promise<HookResult> => {
+  return new Promise((resolve) => {
+    let pending = "";
+
+    runShellCommand(worktree.path, command, {
+      onOutput: (data: string) => {
+        const lines = (pending + data).split(/\r?\n/);
+        pending = lines.pop() ?? "";
+        for (const line of lines) {
+          process.stdout.write(`${prefix}${line}\n`);
+        }
+      },
+      onComplete: (result: HookResult) => {
+        if (pending) {
+          process.stdout.write(`${prefix}${pending}\n`);
+        }
+        resolve(result);
+      },
+    });
+  });
+};
+
+/**
+ * Run a shell command in every worktree (or a filtered subset)
+ * Output is streamed with a branch prefix, followed by a pass/fail summary
+ * Usage: opencode-worktree exec [--dirty] [--branch <glob>] [--parallel <n>] -- <command>
+ */
+export const runExecCommand = async (
+  cwd: string,
+  parsed: ParsedArgs,
+): Promise<number> => {
+  const options = toExecArgs(parsed);
+
+  const repoRoot = await resolveRepoRoot(cwd);
+  if (!repoRoot) {
+    console.error("No git repository found in this directory.");
+    return EXIT_FAILURE;
+  }
+
+  // Only --dirty needs the per-worktree metadata
+  const matching = (
+    await listWorktrees(repoRoot, { enrich: options.dirtyOnly })
+  ).filter((wt) => {
+    if (options.dirtyOnly && !wt.isDirty) return false;
+    if (options.branchPattern && !options.branchPattern.test(wt.branch ?? "")) {
+      return false;
+    }
+    return true;
+  });
+
+  // A stale worktree has no directory to run in
+  const isMissing = (wt: WorktreeInfo): boolean => wt.isPrunable || !existsSync(wt.path);
+  const skipped = matching.filter(isMissing);
+  const worktrees = matching.filter((wt) => !isMissing(wt));
+
+  if (worktrees.length === 0) {
+    console.error(
+      skipped.length > 0
+        ? "No worktrees to run in; all matching worktrees are missing their directory."
+        : "No worktrees match the given filters.",
+    );
+    return EXIT_FAILURE;
+  }
+
+  const labels = worktrees.map(worktreeLabel);
+  const width = Math.max(...labels.map((label) => label.length));
+  const results: (HookResult | null)[] = worktrees.map(() => null);
+
+  // Simple worker pool: each worker takes the next worktree until none are left
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < worktrees.length) {
+      const index = next++;
+      const prefix = `[${labels[index].padEnd(width)}] `;
+      results[index] = await runInWorktree(worktrees[index], options.command, prefix);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(options.parallel, worktrees.length) }, worker),
+  );
+
+  const rows = worktrees.map((wt, i) => {
+    const result = results[i]!;
+    const status = result.success
+      ? "ok"
+      : `failed${result.exitCode !== null ? ` (exit ${result.exitCode})` : ""}`;
+    return [labels[i], status, wt.path];
+  });
+  const skippedRows = skipped.map((wt) => [worktreeLabel(wt), "skipped (missing)", wt.path]);
+  const failed = results.filter((result) => !result?.success).length;
+
+  console.log("");
+  console.log(formatTable([["WORKTREE", "RESULT", "PATH"], ...rows, ...skippedRows]));
+  console.log("");
+  console.log(
+    `${worktrees.length - failed} passed, ${failed} failed` +
+      (skipped.length > 0 ? `, ${skipped.length} skipped` : ""),
+  );
+
+  return failed > 0 ? EXIT_FAILURE : EXIT_SUCCESS;
+};
@@ -0,0 +1,13 @@
+/**
+ * Process exit codes shared by all subcommands
+ */
+export const EXIT_SUCCESS = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+
+// remove/unlink: which DeleteResult step failed
+export const EXIT_UNLINK_FAILED = 3; // Nothing was removed
+export const EXIT_BRANCH_FAILED = 4; // Worktree removed (or pruned) but branch left behind
+
+// status --check
+export const EXIT_CHECK_FAILED = 3; // Uncommitted changes or unpushed commits
@@ -0,0 +1,94 @@
+import { basename } from "node:path";
+import { isMainWorktree, listWorktrees, resolveRepoRoot } from "../git.js";
+import {
+  formatAheadBehind,
+  formatBranchRemote,
+  formatDirtySubmodules,
+  formatOperationState,
+  formatRelativeDate,
+  formatTable,
+} from "../format.js";
+import type { WorktreeInfo } from "../types.js";
+import { UsageError, type ParsedArgs } from "../args.js";
+import { EXIT_FAILURE, EXIT_SUCCESS } from "./exit-codes.js";
+
+type ListFormat = "json" | "table";
+
+/**
+ * Render worktrees as an aligned plain-text table
+ */
+const formatWorktreeTable = (
+  repoRoot: string,
+  worktrees: WorktreeInfo[],
+): string => {
+  const rows = worktrees.map((wt) => {
+    const branch = wt.branch
+      ? wt.branch
+      : wt.isDetached
+        ? `${basename(wt.path)} (detached)`
+        : basename(wt.path);
+    const isMain = isMainWorktree(repoRoot, wt.path);
+    const tags = [isMain && "main", wt.isMerged && "merged"].filter(Boolean);
+
+    return [
+      tags.length > 0 ? `${branch} [${tags.join(" ")}]` : branch,
+      wt.head.slice(0, 8),
+      wt.isPrunable
+        ? "prunable"
+        : wt.isMissing
+          ? "missing"
+          : [
+              ...formatOperationState(wt),
+              wt.isDirty ? "dirty" : "clean",
+              formatDirtySubmodules(wt.changes),
+            ]
+              .filter(Boolean)
+              .join(", "),
+      formatBranchRemote(wt),
+      wt.upstream
+        ? `${wt.upstream} ${formatAheadBehind(wt.ahead, wt.behind)}`.trim()
+        : "-",
+      wt.lastModified ? formatRelativeDate(wt.lastModified) : "-",
+      wt.path,
+    ];
+  });
+
+  return formatTable([
+    ["BRANCH", "HEAD", "STATE", "REMOTE", "UPSTREAM", "MODIFIED", "PATH"],
+    ...rows,
+  ]);
+};
+
+/**
+ * Print all worktrees of the repository at `cwd` and return the exit code
+ * Usage: opencode-worktree list [--json|--table]
+ */
+export const runListCommand = async (
+  cwd: string,
+  parsed: ParsedArgs,
+): Promise<number> => {
+  if (parsed.options.json && parsed.options.table) {
+    throw new UsageError(
+      "Options --json and --table are mutually exclusive.",
+      parsed.command,
+    );
+  }
+  const format: ListFormat = parsed.options.json ? "json" : "table";
+
+  const repoRoot = await resolveRepoRoot(cwd);
+  if (!repoRoot) {
+    console.error("No git repository found in this directory.");
+    return EXIT_FAILURE;
+  }
+
+  const worktrees = await listWorktrees(repoRoot);
+
+  if (format === "json") {
+    // Dates serialize as ISO strings via Date#toJSON
+    console.log(JSON.stringify(worktrees, null, 2));
+  } else {
+    console.log(formatWorktreeTable(repoRoot, worktrees));
+  }
+
+  return EXIT_SUCCESS;
+};
@@ -0,0 +1,76 @@
+import { basename } from "node:path";
+import {
+  isMainWorktree,
+  listWorktrees,
+  lockWorktree,
+  resolveRepoRoot,
+  unlockWorktree,
+} from "../git.js";
+import type { ParsedArgs } from "../args.js";
+import { EXIT_FAILURE, EXIT_SUCCESS } from "./exit-codes.js";
+import { describeMissingWorktree, findWorktree } from "./target.js";
+
+/**
+ * Lock or unlock a worktree; `unlock` shares this command
+ * Usage: opencode-worktree lock <branch-or-path> [--reason <text>]
+ *        opencode-worktree unlock <branch-or-path>
+ */
+export const runLockCommand = async (
+  cwd: string,
+  parsed: ParsedArgs,
+): Promise<number> => {
+  const target = parsed.args[0];
+  const unlock = parsed.command.name === "unlock";
+  const reason = parsed.options.reason as string | undefined;
+
+  const repoRoot = await resolveRepoRoot(cwd);
+  if (!repoRoot) {
+    console.error("No git repository found in this directory.");
+    return EXIT_FAILURE;
+  }
+
+  const worktree = await findWorktree(
+    await listWorktrees(repoRoot, { enrich: false }),
+    target,
+    cwd,
+  );
+  if (!worktree) {
+    console.error(describeMissingWorktree(target));
+    return EXIT_FAILURE;
+  }
+
+  if (isMainWorktree(repoRoot, worktree.path)) {
+    console.error("The main worktree cannot be locked or unlocked.");
+    return EXIT_FAILURE;
+  }
+
+  const name = worktree.branch || basename(worktree.path);
+
+  if (unlock) {
+    if (!worktree.isLocked) {
+      console.log(`Worktree '${name}' is not locked.`);
+      return EXIT_SUCCESS;
+    }
+    const result = await unlockWorktree(repoRoot, worktree.path);
+    if (!result.success) {
+      console.error(`Failed to unlock worktree: ${result.error}`);
+      return EXIT_FAILURE;
+    }
+    console.log(`Worktree '${name}' unlocked.`);
+    return EXIT_SUCCESS;
+  }
+
+  if (worktree.isLocked) {
+    const current = worktree.lockReason ? ` (${worktree.lockReason})` : "";
+    console.error(`Worktree '${name}' is already locked${current}.`);
+    return EXIT_FAILURE;
+  }
+
+  const result = await lockWorktree(repoRoot, worktree.path, reason);
+  if (!result.success) {
+    console.error(`Failed to lock worktree: ${result.error}`);
+    return EXIT_FAILURE;
+  }
+  console.log(`Worktree '${name}' locked${reason ? `: ${reason}` : "."}`);
+  return EXIT_SUCCESS;
+};
@@ -0,0 +1,85 @@
+import { resolve } from "node:path";
+import {
+  isBareRepository,
+  isMainWorktree,
+  listWorktrees,
+  moveWorktree,
+  resolveRepoRoot,
+} from "../git.js";
+import { loadRepoConfig } from "../config.js";
+import { defaultWorktreePathTemplate, resolveWorktreePath } from "../paths.js";
+import type { ParsedArgs } from "../args.js";
+import { EXIT_FAILURE, EXIT_SUCCESS } from "./exit-codes.js";
+import { describeMissingWorktree, findWorktree } from "./target.js";
+
+/**
+ * Move a worktree with `git worktree move`
+ * Without a new path it moves to where worktreePathTemplate puts the branch
+ * Usage: opencode-worktree move <branch-or-path> [new-path] [--force-locked]
+ */
+export const runMoveCommand = async (
+  cwd: string,
+  parsed: ParsedArgs,
+): Promise<number> => {
+  const [target, newPathArg] = parsed.args;
+  const forceLocked = parsed.options["force-locked"] === true;
+
+  const repoRoot = await resolveRepoRoot(cwd);
+  if (!repoRoot) {
+    console.error("No git repository found in this directory.");
+    return EXIT_FAILURE;
+  }
+
+  const worktree = await findWorktree(
+    await listWorktrees(repoRoot, { enrich: false }),
+    target,
+    cwd,
+  );
+  if (!worktree) {
+    console.error(describeMissingWorktree(target));
+    return EXIT_FAILURE;
+  }
+
+  if (isMainWorktree(repoRoot, worktree.path)) {
+    console.error("Cannot move the main worktree.");
+    return EXIT_FAILURE;
+  }
+
+  if (worktree.isLocked && !forceLocked) {
+    const reason = worktree.lockReason ? ` (${worktree.lockReason})` : "";
+    console.error(
+      `Worktree at ${worktree.path} is locked${reason}. Use --force-locked to move it anyway.`,
+    );
+    return EXIT_FAILURE;
+  }
+
+  let newPath: string;
+  if (newPathArg) {
+    newPath = resolve(cwd, newPathArg);
+  } else if (worktree.branch) {
+    const { config } = await loadRepoConfig(repoRoot);
+    newPath = resolveWorktreePath(
+      repoRoot,
+      worktree.branch,
+      config.worktreePathTemplate ||
+        defaultWorktreePathTemplate(await isBareRepository(repoRoot)),
+    );
+  } else {
+    console.error("Detached worktrees need an explicit new path.");
+    return EXIT_FAILURE;
+  }
+
+  if (newPath === worktree.path) {
+    console.log(`Worktree is already at ${newPath}.`);
+    return EXIT_SUCCESS;
+  }
+
+  const result = await moveWorktree(repoRoot, worktree.path, newPath, forceLocked);
+  if (!result.success) {
+    console.error(`Failed to move worktree: ${result.error}`);
+    return EXIT_FAILURE;
+  }
+
+  console.log(`Moved worktree from ${worktree.path} to ${newPath}`);
+  return EXIT_SUCCESS;
+};
@@ -0,0 +1,77 @@
+import { resolveRepoRoot } from "../git.js";
+import { findStaleWorktrees, pruneStaleWorktrees } from "../prune.js";
+import { formatTable } from "../format.js";
+import type { ParsedArgs } from "../args.js";
+import { EXIT_BRANCH_FAILED, EXIT_FAILURE, EXIT_SUCCESS } from "./exit-codes.js";
+
+/**
+ * Remove the entries of worktrees whose directory is gone (`git worktree prune`)
+ * Lists what will be pruned first; --delete-branches also removes their local branches
+ * Locked worktrees are skipped unless --include-locked is given
+ * Usage: opencode-worktree prune [--dry-run] [--delete-branches] [--include-locked]
+ */
+export const runPruneCommand = async (
+  cwd: string,
+  parsed: ParsedArgs,
+): Promise<number> => {
+  const dryRun = parsed.options["dry-run"] === true;
+  const deleteBranches = parsed.options["delete-branches"] === true;
+  const includeLocked = parsed.options["include-locked"] === true;
+
+  const repoRoot = await resolveRepoRoot(cwd);
+  if (!repoRoot) {
+    console.error("No git repository found in this directory.");
+    return EXIT_FAILURE;
+  }
+
+  const stale = await findStaleWorktrees(repoRoot);
+  if (stale.length === 0) {
+    console.log("No stale worktrees.");
+    return EXIT_SUCCESS;
+  }
+
+  const rows = stale.map((wt) => [
+    wt.branch || "(detached)",
+    wt.path,
+    wt.prunableReason || "",
+  ]);
+  console.log(formatTable([["BRANCH", "PATH", "REASON"], ...rows]));
+  console.log("");
+
+  const lockedCount = stale.filter((wt) => wt.isLocked).length;
+  if (dryRun) {
+    const toPrune = includeLocked ? stale : stale.filter((wt) => !wt.isLocked);
+    const branches = toPrune.filter((wt) => wt.branch).length;
+    console.log(
+      `Would prune ${toPrune.length} stale worktree(s)` +
+        (deleteBranches && branches > 0 ? ` and delete ${branches} local branch(es).` : "."),
+    );
+    if (lockedCount > 0 && !includeLocked) {
+      console.log(`Would skip ${lockedCount} locked worktree(s); use --include-locked to prune them too.`);
+    }
+    return EXIT_SUCCESS;
+  }
+
+  const result = await pruneStaleWorktrees(repoRoot, stale, {
+    deleteBranches,
+    includeLocked,
+  });
+  if (!result.success) {
+    console.error(`Failed to prune worktrees: ${result.error}`);
+    return EXIT_FAILURE;
+  }
+
+  console.log(`Pruned ${result.pruned} stale worktree(s).`);
+  if (result.skippedLocked > 0) {
+    console.log(
+      `Skipped ${result.skippedLocked} locked worktree(s); use --include-locked to prune them too.`,
+    );
+  }
+  for (const branch of result.deletedBranches) {
+    console.log(`Deleted local branch '${branch}'.`);
+  }
+  for (const failure of result.branchFailures) {
+    console.error(`Failed to delete branch '${failure.branch}': ${failure.error}`);
+  }
+  return result.branchFailures.length > 0 ? EXIT_BRANCH_FAILED : EXIT_SUCCESS;
+};
@@ -0,0 +1,135 @@
+import { basename } from "node:path";
+import {
+  deleteWorktree,
+  isMainWorktree,
+  listWorktrees,
+  resolveRepoRoot,
+  unlinkWorktree,
+} from "../git.js";
+import { describeChangeCounts, formatOperationState } from "../format.js";
+import type { ParsedArgs } from "../args.js";
+import {
+  EXIT_BRANCH_FAILED,
+  EXIT_FAILURE,
+  EXIT_SUCCESS,
+  EXIT_UNLINK_FAILED,
+} from "./exit-codes.js";
+import { describeMissingWorktree, findWorktree } from "./target.js";
+
+/**
+ * Remove a worktree and (unless keepBranch) its local branch
+ * `unlink` is `remove --keep-branch`; locked worktrees need --force-locked
+ * Usage: opencode-worktree remove <branch-or-path> [--keep-branch] [--force] [--force-locked] [--dry-run]
+ */
+export const runRemoveCommand = async (
+  cwd: string,
+  parsed: ParsedArgs,
+): Promise<number> => {
+  const options = {
+    target: parsed.args[0],
+    keepBranch:
+      parsed.command.name === "unlink" || parsed.options["keep-branch"] === true,
+    force: parsed.options.force === true,
+    forceLocked: parsed.options["force-locked"] === true,
+    dryRun: parsed.options["dry-run"] === true,
+  };
+
+  const repoRoot = await resolveRepoRoot(cwd);
+  if (!repoRoot) {
+    console.error("No git repository found in this directory.");
+    return EXIT_FAILURE;
+  }
+
+  const worktree = await findWorktree(await listWorktrees(repoRoot), options.target, cwd);
+  if (!worktree) {
+    console.error(describeMissingWorktree(options.target));
+    return EXIT_FAILURE;
+  }
+
+  if (isMainWorktree(repoRoot, worktree.path)) {
+    console.error("Cannot remove the main worktree.");
+    return EXIT_FAILURE;
+  }
+
+  if (worktree.isLocked && !options.forceLocked) {
+    const reason = worktree.lockReason ? ` (${worktree.lockReason})` : "";
+    console.error(
+      `Worktree at ${worktree.path} is locked${reason}. Use --force-locked to remove it anyway.`,
+    );
+    return EXIT_FAILURE;
+  }
+
+  // A clean tree can still be halfway through a rebase or merge
+  const inProgress = formatOperationState(worktree);
+  if (inProgress.length > 0 && !options.force) {
+    console.error(
+      `Worktree at ${worktree.path} has an unfinished operation (${inProgress.join(", ")}). Use --force to remove it anyway.`,
+    );
+    return EXIT_FAILURE;
+  }
+
+  const changes = describeChangeCounts(worktree.changes);
+  if (worktree.isDirty && !options.force) {
+    console.error(
+      `Worktree at ${worktree.path} has uncommitted changes (${changes}). Use --force to remove it anyway.`,
+    );
+    return EXIT_FAILURE;
+  }
+
+  const branchName = worktree.branch || basename(worktree.path);
+  // Detached worktrees have no branch to delete
+  const deleteBranch = !options.keepBranch && worktree.branch !== null;
+
+  if (options.dryRun) {
+    console.log(`Would remove worktree at ${worktree.path}`);
+    if (worktree.isDirty) {
+      console.log(`Would discard uncommitted changes (${changes})`);
+    }
+    if (deleteBranch) {
+      console.log(`Would delete local branch '${branchName}'`);
+    } else if (worktree.branch) {
+      console.log(`Would keep branch '${branchName}'`);
+    }
+    return EXIT_SUCCESS;
+  }
+
+  if (!deleteBranch) {
+    const result = await unlinkWorktree(
+      repoRoot,
+      worktree.path,
+      options.force,
+      options.forceLocked,
+    );
+    if (!result.success) {
+      console.error(`Failed to remove worktree: ${result.error}`);
+      return EXIT_UNLINK_FAILED;
+    }
+    console.log(
+      worktree.branch
+        ? `Worktree unlinked. Branch '${branchName}' is still available.`
+        : `Worktree at ${worktree.path} removed.`,
+    );
+    return EXIT_SUCCESS;
+  }
+
+  const result = await deleteWorktree(
+    repoRoot,
+    worktree.path,
+    worktree.branch!,
+    options.force,
+    options.forceLocked,
+  );
+  if (!result.success) {
+    if (result.step === "unlink") {
+      console.error(`Failed to remove worktree: ${result.error}`);
+      return EXIT_UNLINK_FAILED;
+    }
+    console.error(
+      `Worktree removed but failed to delete branch '${branchName}': ${result.error}`,
+    );
+    return EXIT_BRANCH_FAILED;
+  }
+
+  console.log(`Worktree and local branch '${branchName}' deleted.`);
+  return EXIT_SUCCESS;
+};
@@ -0,0 +1,36 @@
+import { resolve } from "node:path";
+import { repairWorktrees, resolveRepoRoot } from "../git.js";
+import type { ParsedArgs } from "../args.js";
+import { EXIT_FAILURE, EXIT_SUCCESS } from "./exit-codes.js";
+
+/**
+ * Fix worktree links broken by moving the repository or a worktree by hand
+ * Prints each entry git repaired
+ * Usage: opencode-worktree repair [path]
+ */
+export const runRepairCommand = async (
+  cwd: string,
+  parsed: ParsedArgs,
+): Promise<number> => {
+  const pathArg = parsed.args[0];
+
+  const repoRoot = await resolveRepoRoot(cwd);
+  if (!repoRoot) {
+    console.error("No git repository found in this directory.");
+    return EXIT_FAILURE;
+  }
+
+  const result = await repairWorktrees(repoRoot, pathArg ? [resolve(cwd, pathArg)] : []);
+
+  for (const entry of result.repaired) {
+    console.log(`Repaired ${entry.path} (${entry.problem})`);
+  }
+  if (!result.success) {
+    console.error(`Failed to repair worktrees: ${result.error}`);
+    return EXIT_FAILURE;
+  }
+  if (result.repaired.length === 0) {
+    console.log("Nothing to repair.");
+  }
+  return EXIT_SUCCESS;
+};
@@ -0,0 +1,45 @@
+import { UsageError, type ParsedArgs } from "../args.js";
+import { EXIT_SUCCESS } from "./exit-codes.js";
+
+type Shell = "bash" | "zsh" | "fish";
+
+/**
+ * Build a shell function that runs the picker and cd's into the chosen worktree
+ * `command` bypasses any alias/function with the same name as the binary
+ */
+const buildWrapper = (shell: Shell, name: string): string => {
+  if (shell === "fish") {
+    return [
+      `function ${name} --description 'Pick a git worktree and cd into it'`,
+      "    set -l dir (command opencode-worktree --print-path $argv)",
+      "    or return $status",
+      '    test -n "$dir"; and cd "$dir"',
+      "end",
+    ].join("\n");
+  }
+
+  // bash and zsh share POSIX function syntax
+  return [
+    `${name}() {`,
+    "  local dir",
+    '  dir="$(command opencode-worktree --print-path "$@")" || return $?',
+    '  [ -n "$dir" ] && cd "$dir"',
+    "}",
+  ].join("\n");
+};
+
+/**
+ * Print a shell wrapper function for `eval`/`source` in the user's shell rc
+ * Usage: opencode-worktree shell-init bash|zsh|fish [--name <function>]
+ */
+export const runShellInitCommand = (parsed: ParsedArgs): number => {
+  const shell = parsed.args[0] as Shell;
+  const name = (parsed.options.name as string | undefined) ?? "wt";
+
+  if (!/^[A-Za-z_][A-Za-z0-9_-]*$/.test(name)) {
+    throw new UsageError(`Invalid function name: ${name}`, parsed.command);
+  }
+
+  console.log(buildWrapper(shell, name));
+  return EXIT_SUCCESS;
+};
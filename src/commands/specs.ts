@@ -0,0 +1,222 @@
+import type { CommandSpec } from "../args.js";
+
+export const BIN_NAME = "opencode-worktree";
+
+export const SHELLS = ["bash", "zsh", "fish"];
+
+/**
+ * The interactive TUI, run when no subcommand is given
+ */
+export const DEFAULT_COMMAND: CommandSpec = {
+  name: "",
+  summary: "Terminal UI for managing git worktrees",
+  description:
+    "Terminal UI for managing git worktrees and launching your coding tool in the selected worktree.",
+  args: [{ name: "path", required: false, complete: "directories" }],
+  options: [
+    {
+      name: "print-path",
+      description: "Print the chosen worktree path instead of launching",
+    },
+  ],
+};
+
+export const COMMANDS: CommandSpec[] = [
+  {
+    name: "pick",
+    summary: "Pick a worktree and print it",
+    description:
+      "Show the worktree list and print the chosen worktree to stdout. The list renders on the terminal, so the output can be captured with $(...). Exits 1 when cancelled.",
+    args: [],
+    options: [
+      {
+        name: "format",
+        value: "template",
+        description: "Output template: {path} (default), {branch}, {head}, {name}",
+      },
+    ],
+  },
+  {
+    name: "list",
+    summary: "List worktrees",
+    description: "Print every worktree of the repository and exit.",
+    args: [],
+    options: [
+      { name: "json", description: "Print a JSON array" },
+      { name: "table", description: "Print an aligned table (default)" },
+    ],
+  },
+  {
+    name: "status",
+    summary: "Show a status dashboard of all worktrees",
+    description:
+      "Show uncommitted changes, ahead/behind upstream, unpushed commits, last commit age, lock state and remote presence for every worktree.",
+    args: [],
+    options: [
+      {
+        name: "check",
+        description: "Exit 3 if any worktree has uncommitted changes or unpushed commits",
+      },
+    ],
+  },
+  {
+    name: "create",
+    summary: "Create a worktree",
+    description:
+      "Create a worktree, run the post-create hook and launch the configured tool, just like the TUI.",
+    args: [{ name: "branch", required: true, complete: "branches" }],
+    options: [
+      {
+        name: "base",
+        value: "ref",
+        description:
+          "Start the new branch from <ref> (branch, remote branch, tag or commit; default: the repo's default branch)",
+        complete: "branches",
+      },
+      {
+        name: "remote",
+        value: "name",
+        description: "Track the branch on this remote when several remotes have it",
+      },
+      { name: "fetch", description: "Fetch the branch from the remote(s) first" },
+      {
+        name: "no-track",
+        description: "Don't track a matching remote branch; create a new local branch",
+      },
+      { name: "no-hook", description: "Skip the post-create hook" },
+      { name: "no-submodules", description: "Don't initialize submodules" },
+      { name: "no-launch", description: "Don't launch the configured tool" },
+      {
+        name: "print-path",
+        description: "Print only the worktree path to stdout (progress goes to stderr)",
+      },
+    ],
+  },
+  {
+    name: "remove",
+    summary: "Remove a worktree and its local branch",
+    description:
+      "Remove a worktree and delete its local branch (never the remote one).",
+    args: [{ name: "branch-or-path", required: true, complete: "worktrees" }],
+    options: [
+      { name: "keep-branch", description: "Keep the local branch (same as unlink)" },
+      { name: "force", description: "Remove even with uncommitted changes" },
+      { name: "force-locked", description: "Remove even if the worktree is locked" },
+      { name: "dry-run", description: "Show what would be removed" },
+    ],
+  },
+  {
+    name: "unlink",
+    summary: "Remove a worktree, keep its branch",
+    description: "Remove a worktree directory but keep its branch for later use.",
+    args: [{ name: "branch-or-path", required: true, complete: "worktrees" }],
+    options: [
+      { name: "force", description: "Remove even with uncommitted changes" },
+      { name: "force-locked", description: "Remove even if the worktree is locked" },
+      { name: "dry-run", description: "Show what would be removed" },
+    ],
+  },
+  {
+    name: "prune",
+    summary: "Clean up worktrees whose directory is gone",
+    description:
+      "List worktrees whose directory or gitdir no longer exists, then remove their entries with 'git worktree prune'.",
+    args: [],
+    options: [
+      { name: "dry-run", description: "Only show what would be pruned" },
+      {
+        name: "delete-branches",
+        description: "Also delete the local branches they had checked out",
+      },
+      { name: "include-locked", description: "Unlock and prune locked worktrees too" },
+    ],
+  },
+  {
+    name: "lock",
+    summary: "Lock a worktree against pruning and removal",
+    description:
+      "Lock a worktree with 'git worktree lock', e.g. when it lives on a removable drive. Locked worktrees are skipped by remove, unlink and prune.",
+    args: [{ name: "branch-or-path", required: true, complete: "worktrees" }],
+    options: [
+      { name: "reason", value: "text", description: "Why the worktree is locked" },
+    ],
+  },
+  {
+    name: "unlock",
+    summary: "Unlock a locked worktree",
+    description: "Unlock a worktree locked with 'lock' or 'git worktree lock'.",
+    args: [{ name: "branch-or-path", required: true, complete: "worktrees" }],
+    options: [],
+  },
+  {
+    name: "move",
+    summary: "Move a worktree to a new path",
+    description:
+      "Move a worktree with 'git worktree move'. Without a new path, it moves to the location worktreePathTemplate gives its branch.",
+    args: [
+      { name: "branch-or-path", required: true, complete: "worktrees" },
+      { name: "new-path", required: false, complete: "directories" },
+    ],
+    options: [
+      { name: "force-locked", description: "Move even if the worktree is locked" },
+    ],
+  },
+  {
+    name: "repair",
+    summary: "Fix worktree links after moving directories by hand",
+    description:
+      "Run 'git worktree repair' and list the entries it fixed. Pass the new path of a worktree that was moved by hand so it can be reconnected.",
+    args: [{ name: "path", required: false, complete: "directories" }],
+    options: [],
+  },
+  {
+    name: "exec",
+    summary: "Run a command in every worktree",
+    description:
+      "Run a shell command in each worktree, streaming output prefixed by branch, then print a pass/fail summary.",
+    args: [],
+    options: [
+      { name: "dirty", description: "Only worktrees with uncommitted changes" },
+      {
+        name: "branch",
+        value: "glob",
+        description: "Only worktrees whose branch matches <glob> (e.g. 'feature/*')",
+      },
+      {
+        name: "parallel",
+        value: "n",
+        description: "Run in up to <n> worktrees at once (default: 1)",
+      },
+    ],
+    passthrough: "command",
+  },
+  {
+    name: "doctor",
+    summary: "Diagnose environment and configuration",
+    description:
+      "Check git, the repository, the config file and the configured commands, and report stale worktrees.",
+    args: [],
+    options: [],
+  },
+  {
+    name: "shell-init",
+    summary: "Print a shell function that cd's into the picked worktree",
+    args: [{ name: "shell", required: true, choices: SHELLS, complete: "shells" }],
+    options: [
+      { name: "name", value: "function", description: "Function name (default: wt)" },
+    ],
+  },
+  {
+    name: "completion",
+    summary: "Print a shell completion script",
+    args: [{ name: "shell", required: true, choices: SHELLS, complete: "shells" }],
+    options: [],
+  },
+  {
+    name: "__complete",
+    summary: "Print completion candidates",
+    args: [{ name: "kind", required: true, choices: ["worktrees", "branches"] }],
+    options: [],
+    hidden: true,
+  },
+];
@@ -0,0 +1,118 @@
+import { basename } from "node:path";
+import {
+  countUnpushedCommits,
+  isMainWorktree,
+  listWorktrees,
+  resolveRepoRoot,
+} from "../git.js";
+import {
+  describeChangeCounts,
+  formatBranchRemote,
+  formatChangeCounts,
+  formatDirtySubmodules,
+  formatOperationState,
+  formatRelativeDate,
+  formatTable,
+} from "../format.js";
+import type { ParsedArgs } from "../args.js";
+import type { WorktreeInfo } from "../types.js";
+import { EXIT_CHECK_FAILED, EXIT_FAILURE, EXIT_SUCCESS } from "./exit-codes.js";
+
+type WorktreeStatus = {
+  worktree: WorktreeInfo;
+  label: string;
+  unpushed: number;
+};
+
+const plural = (count: number, word: string): string =>
+  `${count} ${word}${count === 1 ? "" : "s"}`;
+
+const collectStatus = async (
+  repoRoot: string,
+  worktree: WorktreeInfo,
+): Promise<WorktreeStatus> => {
+  const name = worktree.branch || `${basename(worktree.path)} (detached)`;
+  // A worktree without its directory has nothing to run git in
+  const unpushed = worktree.isMissing ? 0 : await countUnpushedCommits(worktree.path);
+  return {
+    worktree,
+    label: isMainWorktree(repoRoot, worktree.path) ? `${name} [main]` : name,
+    unpushed,
+  };
+};
+
+// e.g. "~2 ?1" or "~1, 1 dirty submodule"
+const formatChanges = (worktree: WorktreeInfo): string =>
+  [formatChangeCounts(worktree.changes), formatDirtySubmodules(worktree.changes)]
+    .filter(Boolean)
+    .join(", ") || "clean";
+
+const formatStatusTable = (statuses: WorktreeStatus[]): string => {
+  const rows = statuses.map(({ worktree, label, unpushed }) => [
+    label,
+    worktree.isMissing ? "missing" : formatChanges(worktree),
+    worktree.upstream
+      ? `${worktree.upstream} ↑${worktree.ahead} ↓${worktree.behind}`
+      : "-",
+    unpushed > 0 ? String(unpushed) : "-",
+    worktree.lastModified ? formatRelativeDate(worktree.lastModified) : "-",
+    worktree.isLocked ? "locked" : "-",
+    formatBranchRemote(worktree),
+  ]);
+
+  return formatTable([
+    ["BRANCH", "CHANGES", "UPSTREAM", "UNPUSHED", "LAST COMMIT", "LOCK", "REMOTE"],
+    ...rows,
+  ]);
+};
+
+/**
+ * Print a dashboard of all worktrees
+ * With --check, exits non-zero when any worktree has uncommitted changes,
+ * commits that aren't on a remote yet, or an unfinished rebase/merge
+ * Usage: opencode-worktree status [--check]
+ */
+export const runStatusCommand = async (
+  cwd: string,
+  parsed: ParsedArgs,
+): Promise<number> => {
+  const check = parsed.options.check === true;
+
+  const repoRoot = await resolveRepoRoot(cwd);
+  if (!repoRoot) {
+    console.error("No git repository found in this directory.");
+    return EXIT_FAILURE;
+  }
+
+  const worktrees = await listWorktrees(repoRoot);
+  const statuses = await Promise.all(worktrees.map((wt) => collectStatus(repoRoot, wt)));
+  console.log(formatStatusTable(statuses));
+
+  if (!check) {
+    return EXIT_SUCCESS;
+  }
+
+  const problems = statuses.flatMap(({ worktree, label, unpushed }) => {
+    const reasons = formatOperationState(worktree);
+    if (worktree.isMissing) {
+      reasons.push("directory missing");
+    }
+    if (worktree.isDirty) {
+      reasons.push(`uncommitted changes (${describeChangeCounts(worktree.changes)})`);
+    }
+    if (unpushed > 0) {
+      reasons.push(plural(unpushed, "unpushed commit"));
+    }
+    return reasons.length > 0 ? [`${label}: ${reasons.join(", ")}`] : [];
+  });
+
+  console.log("");
+  if (problems.length === 0) {
+    console.log("All worktrees are committed and pushed.");
+    return EXIT_SUCCESS;
+  }
+  for (const problem of problems) {
+    console.log(problem);
+  }
+  return EXIT_CHECK_FAILED;
+};
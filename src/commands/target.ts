@@ -0,0 +1,50 @@
+import { realpathSync } from "node:fs";
+import { resolve } from "node:path";
+import { getRebaseBranch } from "../git.js";
+import type { WorktreeInfo } from "../types.js";
+
+/**
+ * Resolve a path through symlinks, falling back to the plain absolute path
+ * when it doesn't exist on disk (e.g., a stale worktree)
+ */
+const canonicalPath = (path: string): string => {
+  try {
+    return realpathSync(path);
+  } catch {
+    return path;
+  }
+};
+
+/**
+ * Find a worktree by branch name or by path (absolute or relative to cwd)
+ * Branch names take precedence over paths; a worktree stopped mid-rebase is
+ * detached, so it matches the branch its rebase is rewriting
+ */
+export const findWorktree = async (
+  worktrees: WorktreeInfo[],
+  target: string,
+  cwd: string,
+): Promise<WorktreeInfo | null> => {
+  const byBranch = worktrees.find((wt) => wt.branch === target);
+  if (byBranch) {
+    return byBranch;
+  }
+
+  const detached = worktrees.filter((wt) => wt.isDetached);
+  const rebaseBranches = await Promise.all(detached.map((wt) => getRebaseBranch(wt.path)));
+  const byRebase = detached.find((_, index) => rebaseBranches[index] === target);
+  if (byRebase) {
+    return byRebase;
+  }
+
+  const targetPath = canonicalPath(resolve(cwd, target));
+  return (
+    worktrees.find((wt) => canonicalPath(wt.path) === targetPath) || null
+  );
+};
+
+/**
+ * Error line for a target that matched no worktree
+ */
+export const describeMissingWorktree = (target: string): string =>
+  `No worktree found for '${target}'. A worktree on a detached HEAD (e.g., mid-bisect) has no branch; pass its path instead.`;
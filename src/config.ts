@@ -1,27 +1,42 @@
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from "node:fs";
-import { join } from "node:path";
+import { dirname, join, resolve } from "node:path";
 import { homedir } from "node:os";
 import { getRepoKey } from "./git.js";
+import { logVerbose } from "./log.js";
 import type { Config, GlobalConfig, LoadRepoConfigResult } from "./types.js";
 
 // Re-export Config type for backwards compatibility
 export type { Config } from "./types.js";
 
-const CONFIG_DIR = join(homedir(), ".config", "opencode-worktree");
-const CONFIG_FILE = join(CONFIG_DIR, "config.json");
+const DEFAULT_CONFIG_FILE = join(
+  homedir(),
+  ".config",
+  "opencode-worktree",
+  "config.json",
+);
+
+// Overridable with --config
+let configFile = DEFAULT_CONFIG_FILE;
+
+/**
+ * Use a different global config file (e.g., from --config)
+ */
+export const setGlobalConfigPath = (path: string): void => {
+  configFile = resolve(path);
+};
 
 /**
  * Get the path to the global config directory
  */
 export const getGlobalConfigDir = (): string => {
-  return CONFIG_DIR;
+  return dirname(configFile);
 };
 
 /**
  * Get the path to the global config file
  */
 export const getGlobalConfigPath = (): string => {
-  return CONFIG_FILE;
+  return configFile;
 };
 
 /**
@@ -32,6 +47,9 @@ export const getDefaultConfig = (): Config => {
     postCreateHook: "",
     openCommand: "",
     launchCommand: "opencode",
+    worktreePathTemplate: "",
+    identityRemote: "",
+    initSubmodules: "auto",
   };
 };
 
@@ -50,8 +68,9 @@ const createEmptyGlobalConfig = (): GlobalConfig => {
  */
 const ensureConfigDir = (): boolean => {
   try {
-    if (!existsSync(CONFIG_DIR)) {
-      mkdirSync(CONFIG_DIR, { recursive: true });
+    const configDir = getGlobalConfigDir();
+    if (!existsSync(configDir)) {
+      mkdirSync(configDir, { recursive: true });
     }
     return true;
   } catch {
@@ -59,16 +78,19 @@ const ensureConfigDir = (): boolean => {
   }
 };
 
+const isInitSubmodulesValue = (value: unknown): value is boolean | "auto" =>
+  typeof value === "boolean" || value === "auto";
+
 /**
  * Load the entire global config file
  */
 export const loadGlobalConfig = (): GlobalConfig => {
-  if (!existsSync(CONFIG_FILE)) {
+  if (!existsSync(configFile)) {
     return createEmptyGlobalConfig();
   }
 
   try {
-    const content = readFileSync(CONFIG_FILE, "utf8");
+    const content = readFileSync(configFile, "utf8");
     const parsed = JSON.parse(content);
 
     // Validate and normalize the config structure
@@ -92,6 +114,15 @@ export const loadGlobalConfig = (): GlobalConfig => {
       if (typeof parsed.default.launchCommand === "string") {
         globalConfig.default.launchCommand = parsed.default.launchCommand;
       }
+      if (typeof parsed.default.worktreePathTemplate === "string") {
+        globalConfig.default.worktreePathTemplate = parsed.default.worktreePathTemplate;
+      }
+      if (typeof parsed.default.identityRemote === "string") {
+        globalConfig.default.identityRemote = parsed.default.identityRemote;
+      }
+      if (isInitSubmodulesValue(parsed.default.initSubmodules)) {
+        globalConfig.default.initSubmodules = parsed.default.initSubmodules;
+      }
     }
 
     // Parse repos config
@@ -110,6 +141,12 @@ export const loadGlobalConfig = (): GlobalConfig => {
           if (typeof v.launchCommand === "string") {
             repoConfig.launchCommand = v.launchCommand;
           }
+          if (typeof v.worktreePathTemplate === "string") {
+            repoConfig.worktreePathTemplate = v.worktreePathTemplate;
+          }
+          if (isInitSubmodulesValue(v.initSubmodules)) {
+            repoConfig.initSubmodules = v.initSubmodules;
+          }
 
           // Only add if there are actual values
           if (Object.keys(repoConfig).length > 0) {
@@ -126,6 +163,33 @@ export const loadGlobalConfig = (): GlobalConfig => {
   }
 };
 
+export type GlobalConfigStatus = {
+  path: string;
+  exists: boolean;
+  error: string | null; // Why the file can't be used; loadGlobalConfig falls back to defaults
+};
+
+/**
+ * Check whether the global config file exists and parses
+ * loadGlobalConfig silently ignores broken files; this reports why
+ */
+export const inspectGlobalConfig = (): GlobalConfigStatus => {
+  if (!existsSync(configFile)) {
+    return { path: configFile, exists: false, error: null };
+  }
+
+  try {
+    const parsed = JSON.parse(readFileSync(configFile, "utf8"));
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      return { path: configFile, exists: true, error: "top level is not an object" };
+    }
+    return { path: configFile, exists: true, error: null };
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    return { path: configFile, exists: true, error };
+  }
+};
+
 /**
  * Save the entire global config file
  */
@@ -136,25 +200,41 @@ export const saveGlobalConfig = (config: GlobalConfig): boolean => {
 
   try {
     const content = JSON.stringify(config, null, 2) + "\n";
-    writeFileSync(CONFIG_FILE, content, "utf8");
+    writeFileSync(configFile, content, "utf8");
     return true;
   } catch {
     return false;
   }
 };
 
+/**
+ * Get the repo key from the remote named by identityRemote (or the fallbacks)
+ * It can't be set per repo, since the key decides which repo entry applies
+ */
+export const resolveRepoKey = (repoRoot: string): Promise<string | null> =>
+  getRepoKey(repoRoot, loadGlobalConfig().default.identityRemote || undefined);
+
 /**
  * Load configuration for a specific repository
  * Merges default config with repo-specific overrides
  * Returns the config and the repo key (null if no remote)
  */
-export const loadRepoConfig = (repoRoot: string): LoadRepoConfigResult => {
-  const repoKey = getRepoKey(repoRoot);
+export const loadRepoConfig = async (repoRoot: string): Promise<LoadRepoConfigResult> => {
   const globalConfig = loadGlobalConfig();
+  const repoKey = await getRepoKey(repoRoot, globalConfig.default.identityRemote || undefined);
 
   // Start with default config
   const config: Config = { ...globalConfig.default };
 
+  logVerbose(
+    `Config file: ${configFile}${existsSync(configFile) ? "" : " (not found)"}`,
+  );
+  logVerbose(
+    repoKey
+      ? `Repo key: ${repoKey}${globalConfig.repos[repoKey] ? " (repo entry applied)" : " (no repo entry)"}`
+      : "Repo key: none (no remotes)",
+  );
+
   // If we have a repo key, merge in repo-specific config
   if (repoKey && globalConfig.repos[repoKey]) {
     const repoConfig = globalConfig.repos[repoKey];
@@ -168,6 +248,12 @@ export const loadRepoConfig = (repoRoot: string): LoadRepoConfigResult => {
     if (repoConfig.launchCommand !== undefined) {
       config.launchCommand = repoConfig.launchCommand;
     }
+    if (repoConfig.worktreePathTemplate !== undefined) {
+      config.worktreePathTemplate = repoConfig.worktreePathTemplate;
+    }
+    if (repoConfig.initSubmodules !== undefined) {
+      config.initSubmodules = repoConfig.initSubmodules;
+    }
   }
 
   return { config, repoKey };
@@ -178,8 +264,8 @@ export const loadRepoConfig = (repoRoot: string): LoadRepoConfigResult => {
  * Only saves values that differ from the default
  * Returns false if there's no remote (can't save repo-specific config)
  */
-export const saveRepoConfig = (repoRoot: string, config: Config): boolean => {
-  const repoKey = getRepoKey(repoRoot);
+export const saveRepoConfig = async (repoRoot: string, config: Config): Promise<boolean> => {
+  const repoKey = await resolveRepoKey(repoRoot);
 
   if (!repoKey) {
     // No remote - can't save repo-specific config
@@ -200,6 +286,15 @@ export const saveRepoConfig = (repoRoot: string, config: Config): boolean => {
   if (config.launchCommand !== globalConfig.default.launchCommand) {
     repoConfig.launchCommand = config.launchCommand;
   }
+  if (config.worktreePathTemplate !== globalConfig.default.worktreePathTemplate) {
+    repoConfig.worktreePathTemplate = config.worktreePathTemplate;
+  }
+  if (
+    config.initSubmodules !== undefined &&
+    config.initSubmodules !== globalConfig.default.initSubmodules
+  ) {
+    repoConfig.initSubmodules = config.initSubmodules;
+  }
 
   // Update or remove the repo entry
   if (Object.keys(repoConfig).length > 0) {
@@ -0,0 +1,220 @@
+import {
+  createWorktree,
+  fetchBranch,
+  findRemoteBranches,
+  hasSubmodules,
+  isBareRepository,
+  listRemotes,
+  localBranchExists,
+  validateBranchName,
+  type CreatedWorktree,
+} from "./git.js";
+import { runShellCommand, type HookResult } from "./hooks.js";
+import { defaultWorktreePathTemplate, resolveWorktreePath } from "./paths.js";
+import type { Config } from "./types.js";
+
+export type CreateFlowOptions = {
+  branchName: string;
+  baseRef?: string; // Start a new branch from this ref instead of the default branch
+  remote?: string; // Track the branch on this remote (required when several remotes have it)
+  trackRemote?: boolean; // Defaults to true; false never tracks a matching remote branch
+  fetch?: boolean; // Fetch the branch from the remote(s) before looking for it
+  runHook?: boolean; // Defaults to true; set false to skip the post-create hook
+  initSubmodules?: boolean; // Defaults to true (per the initSubmodules config); false skips it
+};
+
+export type CreateFlowCallbacks = {
+  onCreated?: (created: CreatedWorktree) => void;
+  // Pick one of several remote-tracking branches ("origin/x", "upstream/x"); null cancels
+  onChooseRemote?: (candidates: string[]) => Promise<string | null>;
+  onSubmodulesStart?: (command: string, abort: () => void) => void;
+  onHookStart?: (command: string, abort: () => void) => void;
+  // Output of both the submodule update and the hook
+  onHookOutput?: (data: string) => void;
+};
+
+// submodules/hook are null when that step didn't run; a failed submodule
+// update skips the hook
+export type CreateFlowResult =
+  | ({
+      success: true;
+      submodules: HookResult | null;
+      hook: HookResult | null;
+    } & CreatedWorktree)
+  | { success: false; error: string };
+
+export const SUBMODULE_UPDATE_COMMAND = "git submodule update --init --recursive";
+
+type TrackingResult =
+  | { success: true; track: string | null }
+  | { success: false; error: string };
+
+/**
+ * Find the remote branch a new local branch should track, if any
+ * Only applies when the branch doesn't exist locally and no base was given
+ */
+const resolveTrackingBranch = async (
+  repoRoot: string,
+  options: CreateFlowOptions,
+  callbacks: CreateFlowCallbacks,
+): Promise<TrackingResult> => {
+  const { branchName } = options;
+  if (options.baseRef || options.trackRemote === false) {
+    return { success: true, track: null };
+  }
+  if (await localBranchExists(repoRoot, branchName)) {
+    return { success: true, track: null };
+  }
+
+  if (options.fetch) {
+    const remotes = options.remote ? [options.remote] : await listRemotes(repoRoot);
+    // A remote without the branch just fails to fetch, which is fine here
+    await Promise.all(remotes.map((remote) => fetchBranch(repoRoot, remote, branchName)));
+  }
+
+  const candidates = await findRemoteBranches(repoRoot, branchName);
+
+  if (options.remote) {
+    const wanted = `${options.remote}/${branchName}`;
+    if (!candidates.includes(wanted)) {
+      return {
+        success: false,
+        error: `No branch '${branchName}' on remote '${options.remote}'.`,
+      };
+    }
+    return { success: true, track: wanted };
+  }
+
+  if (candidates.length <= 1) {
+    return { success: true, track: candidates[0] ?? null };
+  }
+
+  if (!callbacks.onChooseRemote) {
+    return {
+      success: false,
+      error: `Branch '${branchName}' exists on several remotes (${candidates.join(", ")}). Choose one with --remote.`,
+    };
+  }
+  const choice = await callbacks.onChooseRemote(candidates);
+  if (!choice) {
+    return { success: false, error: "Cancelled." };
+  }
+  return { success: true, track: choice };
+};
+
+/**
+ * Describe whether a branch was created or reused, for status lines
+ */
+export const describeCreatedWorktree = (
+  branchName: string,
+  created: CreatedWorktree,
+): string => {
+  if (!created.createdBranch) {
+    return `Checked out existing branch '${branchName}' at ${created.path}`;
+  }
+  if (created.tracking) {
+    return `Created branch '${branchName}' tracking ${created.tracking} at ${created.path}`;
+  }
+  const base = created.baseRef ? ` from ${created.baseRef}` : "";
+  return `Created branch '${branchName}'${base} at ${created.path}`;
+};
+
+/**
+ * Decide whether a new worktree's submodules should be initialized
+ * The "auto" default does it when the checkout has a .gitmodules file
+ */
+const shouldInitSubmodules = (
+  config: Config,
+  options: CreateFlowOptions,
+  worktreePath: string,
+): boolean => {
+  if (options.initSubmodules === false) return false;
+  const setting = config.initSubmodules ?? "auto";
+  return setting === "auto" ? hasSubmodules(worktreePath) : setting;
+};
+
+/**
+ * Run a command in the new worktree, streaming its output to onHookOutput
+ */
+const runStep = (
+  worktreePath: string,
+  command: string,
+  callbacks: CreateFlowCallbacks,
+  onStart: ((command: string, abort: () => void) => void) | undefined,
+): Promise<HookResult> =>
+  new Promise<HookResult>((resolve) => {
+    const abort = runShellCommand(worktreePath, command, {
+      onOutput: (data: string) => {
+        callbacks.onHookOutput?.(data);
+      },
+      onComplete: resolve,
+    });
+    onStart?.(command, abort);
+  });
+
+/**
+ * Create a worktree, initialize its submodules and run the configured
+ * post-create hook
+ * This is the shared pipeline used by both the TUI and the `create` subcommand
+ */
+export const createWorktreeWithHook = async (
+  repoRoot: string,
+  config: Config,
+  options: CreateFlowOptions,
+  callbacks: CreateFlowCallbacks = {},
+): Promise<CreateFlowResult> => {
+  // Reject bad names before fetching or touching the filesystem
+  const validation = await validateBranchName(repoRoot, options.branchName);
+  if (!validation.success) {
+    return validation;
+  }
+
+  const tracking = await resolveTrackingBranch(repoRoot, options, callbacks);
+  if (!tracking.success) {
+    return tracking;
+  }
+
+  const worktreePath = resolveWorktreePath(
+    repoRoot,
+    options.branchName,
+    config.worktreePathTemplate ||
+      defaultWorktreePathTemplate(await isBareRepository(repoRoot)),
+  );
+  const result = await createWorktree(repoRoot, options.branchName, worktreePath, {
+    baseRef: options.baseRef,
+    track: tracking.track ?? undefined,
+  });
+
+  if (!result.success) {
+    return result;
+  }
+
+  const created: CreatedWorktree = {
+    path: result.path,
+    createdBranch: result.createdBranch,
+    baseRef: result.baseRef,
+    tracking: result.tracking,
+  };
+  callbacks.onCreated?.(created);
+
+  // Submodules go first, so the hook can build against them
+  const submodules = shouldInitSubmodules(config, options, result.path)
+    ? await runStep(
+        result.path,
+        SUBMODULE_UPDATE_COMMAND,
+        callbacks,
+        callbacks.onSubmodulesStart,
+      )
+    : null;
+  if (submodules && !submodules.success) {
+    return { success: true, ...created, submodules, hook: null };
+  }
+
+  const hookCommand = config.postCreateHook;
+  if (!hookCommand || options.runHook === false) {
+    return { success: true, ...created, submodules, hook: null };
+  }
+
+  const hook = await runStep(result.path, hookCommand, callbacks, callbacks.onHookStart);
+  return { success: true, ...created, submodules, hook };
+};
@@ -0,0 +1,163 @@
+import { basename } from "node:path";
+import type { ChangeCounts, GitOperation, WorktreeInfo } from "./types.js";
+
+/**
+ * Format a date relative to now (e.g., "5m ago", "3d ago")
+ */
+export const formatRelativeDate = (date: Date): string => {
+  const now = new Date();
+  const diffMs = now.getTime() - date.getTime();
+  const diffMins = Math.floor(diffMs / (1000 * 60));
+  const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
+  const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
+
+  if (diffMins < 1) return "just now";
+  if (diffMins < 60) return `${diffMins}m ago`;
+  if (diffHours < 24) return `${diffHours}h ago`;
+  if (diffDays < 7) return `${diffDays}d ago`;
+  if (diffDays < 30) return `${Math.floor(diffDays / 7)}w ago`;
+  if (diffDays < 365) return `${Math.floor(diffDays / 30)}mo ago`;
+  return `${Math.floor(diffDays / 365)}y ago`;
+};
+
+/**
+ * Format ahead/behind counts as "↑3 ↓1", omitting zero sides
+ * Returns an empty string when the branch is in sync
+ */
+export const formatAheadBehind = (ahead: number, behind: number): string => {
+  const parts: string[] = [];
+  if (ahead > 0) parts.push(`↑${ahead}`);
+  if (behind > 0) parts.push(`↓${behind}`);
+  return parts.join(" ");
+};
+
+/**
+ * Format change counts compactly as "+2 ~5 ?3 !1 $1" (staged, unstaged,
+ * untracked, conflicted, stash entries), omitting zeros
+ * Returns an empty string for a clean worktree without stashes
+ */
+export const formatChangeCounts = (changes: ChangeCounts): string => {
+  const parts: string[] = [];
+  if (changes.staged > 0) parts.push(`+${changes.staged}`);
+  if (changes.unstaged > 0) parts.push(`~${changes.unstaged}`);
+  if (changes.untracked > 0) parts.push(`?${changes.untracked}`);
+  if (changes.conflicted > 0) parts.push(`!${changes.conflicted}`);
+  if (changes.stashed > 0) parts.push(`$${changes.stashed}`);
+  return parts.join(" ");
+};
+
+/**
+ * Label submodules with new commits, modified or untracked content, e.g.
+ * "2 dirty submodules"; their changes are also counted as unstaged
+ * Returns an empty string when there are none
+ */
+export const formatDirtySubmodules = (changes: ChangeCounts): string => {
+  const count = changes.submodules;
+  if (count === 0) return "";
+  return `${count} dirty submodule${count === 1 ? "" : "s"}`;
+};
+
+/**
+ * Spell out the changes that removing a worktree would discard, e.g.
+ * "2 staged, 5 unstaged, 3 untracked"; stash entries survive removal and
+ * aren't included
+ */
+export const describeChangeCounts = (changes: ChangeCounts): string => {
+  const parts: string[] = [];
+  if (changes.staged > 0) parts.push(`${changes.staged} staged`);
+  if (changes.unstaged > 0) parts.push(`${changes.unstaged} unstaged`);
+  if (changes.untracked > 0) parts.push(`${changes.untracked} untracked`);
+  if (changes.conflicted > 0) parts.push(`${changes.conflicted} conflicted`);
+  const submodules = formatDirtySubmodules(changes);
+  if (submodules) parts.push(submodules);
+  return parts.join(", ");
+};
+
+/**
+ * Add up change counts, e.g. across the worktrees of a batch delete
+ */
+export const sumChangeCounts = (counts: ChangeCounts[]): ChangeCounts =>
+  counts.reduce(
+    (total, changes) => ({
+      staged: total.staged + changes.staged,
+      unstaged: total.unstaged + changes.unstaged,
+      untracked: total.untracked + changes.untracked,
+      conflicted: total.conflicted + changes.conflicted,
+      stashed: total.stashed + changes.stashed,
+      submodules: total.submodules + changes.submodules,
+    }),
+    { staged: 0, unstaged: 0, untracked: 0, conflicted: 0, stashed: 0, submodules: 0 },
+  );
+
+const OPERATION_LABELS: Record<GitOperation, string> = {
+  rebase: "rebasing",
+  am: "am",
+  merge: "merging",
+  "cherry-pick": "cherry-picking",
+  revert: "reverting",
+  bisect: "bisecting",
+};
+
+/**
+ * Describe unfinished git operations and conflicts in a worktree, e.g.
+ * ["rebasing", "2 unmerged"]; empty when there is nothing in progress
+ */
+export const formatOperationState = (
+  worktree: Pick<WorktreeInfo, "operations" | "unmergedCount">,
+): string[] => {
+  const parts = worktree.operations.map((operation) => OPERATION_LABELS[operation]);
+  if (worktree.unmergedCount > 0) {
+    parts.push(`${worktree.unmergedCount} unmerged`);
+  }
+  return parts;
+};
+
+/**
+ * Name the remote a worktree's branch lives on: "upstream", "origin (gone)"
+ * when its tracked remote branch was deleted, or "local"
+ */
+export const formatBranchRemote = (worktree: WorktreeInfo): string => {
+  if (worktree.remote && worktree.isOnRemote) return worktree.remote;
+  if (worktree.remote) return `${worktree.remote} (gone)`;
+  return "local";
+};
+
+/**
+ * Fill a `--format` template such as "{branch}" or "{path}" for a worktree
+ * Placeholders: {path}, {branch}, {head}, {name}; unknown ones are left as-is
+ */
+export const formatWorktreeTemplate = (
+  template: string,
+  worktree: WorktreeInfo,
+): string => {
+  const values: Record<string, string> = {
+    path: worktree.path,
+    branch: worktree.branch ?? "",
+    head: worktree.head,
+    name: basename(worktree.path),
+  };
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? values[key] : match,
+  );
+};
+
+/**
+ * Format rows as a plain-text table with left-aligned, space-padded columns
+ * The first row is treated as the header
+ */
+export const formatTable = (rows: string[][]): string => {
+  const widths: number[] = [];
+  for (const row of rows) {
+    row.forEach((cell, i) => {
+      widths[i] = Math.max(widths[i] || 0, cell.length);
+    });
+  }
+
+  return rows
+    .map((row) =>
+      row
+        .map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i])))
+        .join("  "),
+    )
+    .join("\n");
+};
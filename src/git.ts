@@ -1,22 +1,121 @@
-import { execFileSync } from "node:child_process";
-import { WorktreeInfo } from "./types.js";
+import { execFile } from "node:child_process";
+import { existsSync, readFileSync } from "node:fs";
+import { availableParallelism } from "node:os";
+import { join, resolve } from "node:path";
+import { logVerbose } from "./log.js";
+import type { ChangeCounts, GitOperation, WorktreeInfo } from "./types.js";
+
+// Upper bound on git processes running at once; metadata for every worktree
+// is requested together and queues here instead of spawning dozens of processes
+const MAX_CONCURRENT_GIT = Math.min(8, Math.max(2, availableParallelism()));
+
+let activeGitProcesses = 0;
+const gitQueue: (() => void)[] = [];
+
+const acquireGitSlot = async (): Promise<void> => {
+  if (activeGitProcesses < MAX_CONCURRENT_GIT) {
+    activeGitProcesses++;
+    return;
+  }
+  // The releasing call hands its slot over directly
+  await new Promise<void>((resolve) => gitQueue.push(resolve));
+};
+
+const releaseGitSlot = (): void => {
+  const next = gitQueue.shift();
+  if (next) {
+    next();
+  } else {
+    activeGitProcesses--;
+  }
+};
+
+export type GitOutput = {
+  stdout: string;
+  stderr: string;
+};
 
 /**
- * Get the remote origin URL for a repository
+ * Run git without blocking the event loop, limited to MAX_CONCURRENT_GIT
+ * processes at a time. Rejects when git exits non-zero; the error message
+ * includes git's stderr
  */
-export const getRemoteOriginUrl = (repoRoot: string): string | null => {
+export const runGit = async (
+  args: string[],
+  cwd?: string,
+  env?: NodeJS.ProcessEnv, // Extra environment variables for this call
+  input?: string, // Written to git's stdin
+): Promise<GitOutput> => {
+  await acquireGitSlot();
+  logVerbose(`git ${args.join(" ")}${cwd ? ` (in ${cwd})` : ""}`);
   try {
-    const output = execFileSync("git", ["remote", "get-url", "origin"], {
-      cwd: repoRoot,
-      stdio: ["ignore", "pipe", "ignore"],
-      encoding: "utf8",
+    return await new Promise<GitOutput>((resolve, reject) => {
+      const child = execFile(
+        "git",
+        args,
+        {
+          cwd,
+          env: env ? { ...process.env, ...env } : undefined,
+          encoding: "utf8",
+          maxBuffer: 64 * 1024 * 1024,
+        },
+        (error, stdout, stderr) => {
+          if (error) {
+            reject(error);
+          } else {
+            resolve({ stdout, stderr });
+          }
+        },
+      );
+      if (input !== undefined) {
+        child.stdin?.end(input);
+      }
     });
-    return output.trim() || null;
+  } finally {
+    releaseGitSlot();
+  }
+};
+
+const errorMessage = (e: unknown): string =>
+  e instanceof Error ? e.message : String(e);
+
+// For calls whose human-readable output is parsed; git translates those
+// messages under other locales
+const UNTRANSLATED_ENV: NodeJS.ProcessEnv = { LC_ALL: "C" };
+
+/**
+ * Get the URL of a remote
+ */
+export const getRemoteUrl = async (
+  repoRoot: string,
+  remote: string,
+): Promise<string | null> => {
+  try {
+    const { stdout } = await runGit(["remote", "get-url", remote], repoRoot);
+    return stdout.trim() || null;
   } catch {
     return null;
   }
 };
 
+/**
+ * Pick the remote that identifies the repository (its config key)
+ * Tries the preferred remote (identityRemote), then origin and upstream, then
+ * falls back to the first remote, so repos without origin still get a key
+ */
+export const getIdentityRemote = async (
+  repoRoot: string,
+  preferredRemote?: string,
+): Promise<string | null> => {
+  const remotes = await listRemotes(repoRoot);
+  for (const candidate of [preferredRemote, "origin", "upstream"]) {
+    if (candidate && remotes.includes(candidate)) {
+      return candidate;
+    }
+  }
+  return remotes[0] ?? null;
+};
+
 /**
  * Normalize a git remote URL to a consistent key format
  * Examples:
@@ -56,24 +155,64 @@ export const normalizeRemoteUrl = (url: string): string => {
 
 /**
  * Get the normalized repo key for a repository (for config lookup)
- * Returns null if no remote origin is configured
+ * Returns null if the repository has no remotes
  */
-export const getRepoKey = (repoRoot: string): string | null => {
-  const remoteUrl = getRemoteOriginUrl(repoRoot);
+export const getRepoKey = async (
+  repoRoot: string,
+  preferredRemote?: string,
+): Promise<string | null> => {
+  const remote = await getIdentityRemote(repoRoot, preferredRemote);
+  const remoteUrl = remote ? await getRemoteUrl(repoRoot, remote) : null;
   if (!remoteUrl) {
     return null;
   }
   return normalizeRemoteUrl(remoteUrl);
 };
 
-export const resolveRepoRoot = (cwd: string): string | null => {
+/**
+ * Get the installed git version (e.g., "2.43.0"), or null if git is missing
+ */
+export const getGitVersion = async (): Promise<string | null> => {
   try {
-    const output = execFileSync("git", ["rev-parse", "--show-toplevel"], {
-      cwd,
-      stdio: ["ignore", "pipe", "ignore"],
-      encoding: "utf8",
-    });
-    return output.trim() || null;
+    const { stdout } = await runGit(["--version"]);
+    const match = stdout.match(/(\d+\.\d+(?:\.\d+)?)/);
+    return match ? match[1] : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Check whether a git directory belongs to a bare repository
+ */
+export const isBareRepository = async (gitDir: string): Promise<boolean> => {
+  try {
+    const { stdout } = await runGit(["rev-parse", "--is-bare-repository"], gitDir);
+    return stdout.trim() === "true";
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Find the repository that cwd belongs to, from the main worktree, any linked
+ * worktree or a bare repository. Returns the main worktree's path, or the bare
+ * repository's directory for the "repo.git + sibling worktrees" layout (where
+ * there is no main worktree)
+ */
+export const resolveRepoRoot = async (cwd: string): Promise<string | null> => {
+  try {
+    // Shared by all worktrees; `--show-toplevel` would fail inside a bare repo
+    // and return the linked worktree itself when run from one
+    const { stdout } = await runGit(["rev-parse", "--git-common-dir"], cwd);
+    const commonDir = resolve(cwd, stdout.trim());
+    if (await isBareRepository(commonDir)) {
+      return commonDir;
+    }
+
+    // The first entry is always the main worktree
+    const { stdout: list } = await runGit(["worktree", "list", "--porcelain"], cwd);
+    return list.match(/^worktree (.+)$/m)?.[1] ?? null;
   } catch {
     return null;
   }
@@ -83,17 +222,39 @@ export const parseWorktreeList = (output: string): WorktreeInfo[] => {
   const lines = output.split(/\r?\n/);
   const worktrees: WorktreeInfo[] = [];
   let current: Partial<WorktreeInfo> | null = null;
+  let currentIsBare = false;
 
   const pushCurrent = (): void => {
-    if (current?.path) {
+    // A bare repository is listed first but has no working tree to show
+    if (current?.path && !currentIsBare) {
       worktrees.push({
         path: current.path,
         head: current.head || "",
         branch: current.branch || null,
         isDetached: current.isDetached || false,
+        isLocked: current.isLocked || false,
+        lockReason: current.lockReason || null,
+        isPrunable: current.isPrunable || false,
+        prunableReason: current.prunableReason || null,
+        isMissing: false,
         isDirty: false,
+        changes: {
+          staged: 0,
+          unstaged: 0,
+          untracked: 0,
+          conflicted: 0,
+          stashed: 0,
+          submodules: 0,
+        },
         isOnRemote: false,
+        remote: null,
+        upstream: null,
+        ahead: 0,
+        behind: 0,
         lastModified: null,
+        isMerged: false,
+        operations: [],
+        unmergedCount: 0,
       });
     }
   };
@@ -106,12 +267,22 @@ export const parseWorktreeList = (output: string): WorktreeInfo[] => {
         head: "",
         branch: null,
         isDetached: false,
+        isLocked: false,
+        lockReason: null,
+        isPrunable: false,
+        prunableReason: null,
       };
+      currentIsBare = false;
       continue;
     }
 
     if (!current) continue;
 
+    if (line.trim() === "bare") {
+      currentIsBare = true;
+      continue;
+    }
+
     if (line.startsWith("HEAD ")) {
       current.head = line.slice("HEAD ".length).trim();
       continue;
@@ -129,101 +300,530 @@ export const parseWorktreeList = (output: string): WorktreeInfo[] => {
       current.isDetached = true;
       continue;
     }
+
+    // "locked" or "locked <reason>"
+    if (line === "locked" || line.startsWith("locked ")) {
+      current.isLocked = true;
+      current.lockReason = line.slice("locked".length).trim() || null;
+      continue;
+    }
+
+    // "prunable" or "prunable <reason>" (git 2.31+)
+    if (line === "prunable" || line.startsWith("prunable ")) {
+      current.isPrunable = true;
+      current.prunableReason = line.slice("prunable".length).trim() || null;
+      continue;
+    }
   }
 
   pushCurrent();
   return worktrees;
 };
 
-export const listWorktrees = (cwd: string): WorktreeInfo[] => {
-  const repoRoot = resolveRepoRoot(cwd);
+export type ListWorktreesOptions = {
+  enrich?: boolean; // Defaults to true; false skips the per-worktree metadata lookups
+};
+
+/**
+ * List worktrees from `git worktree list --porcelain`
+ * With enrich: false this is a single git call, so callers can show the list
+ * right away and fill in metadata later with enrichWorktrees
+ */
+export const listWorktrees = async (
+  cwd: string,
+  options: ListWorktreesOptions = {},
+): Promise<WorktreeInfo[]> => {
+  const repoRoot = await resolveRepoRoot(cwd);
   if (!repoRoot) return [];
 
-  const output = execFileSync("git", ["worktree", "list", "--porcelain"], {
-    cwd: repoRoot,
-    stdio: ["ignore", "pipe", "ignore"],
-    encoding: "utf8",
-  });
-  const worktrees = parseWorktreeList(output);
-  
-  // Enrich each worktree with metadata
-  return worktrees.map((wt) => enrichWorktreeInfo(repoRoot, wt));
+  const { stdout } = await runGit(["worktree", "list", "--porcelain"], repoRoot);
+  const worktrees = parseWorktreeList(stdout);
+
+  if (options.enrich === false) {
+    return worktrees;
+  }
+
+  return enrichWorktrees(repoRoot, worktrees);
 };
 
-export type CreateWorktreeResult =
-  | { success: true; path: string }
-  | { success: false; error: string };
+/**
+ * List local branch names
+ */
+export const listLocalBranches = async (repoRoot: string): Promise<string[]> => {
+  try {
+    const { stdout } = await runGit(
+      ["for-each-ref", "--format=%(refname:short)", "refs/heads"],
+      repoRoot,
+    );
+    return stdout.split(/\r?\n/).filter((line) => line.length > 0);
+  } catch {
+    return [];
+  }
+};
 
-export const createWorktree = (
+/**
+ * Check whether a local branch exists
+ */
+export const localBranchExists = async (
   repoRoot: string,
   branchName: string,
-  worktreesDir: string,
-): CreateWorktreeResult => {
-  const worktreePath = `${worktreesDir}/${branchName}`;
+): Promise<boolean> => {
+  try {
+    await runGit(["show-ref", "--verify", "--quiet", `refs/heads/${branchName}`], repoRoot);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Detect the repo's default branch
+ * Prefers a remote's HEAD (e.g. "origin/main", then "upstream/main" or any
+ * other remote), then a local main/master
+ * Returns null when none can be found (new branches then start from HEAD)
+ */
+export const getDefaultBranch = async (repoRoot: string): Promise<string | null> => {
+  const remotes = await listRemotes(repoRoot);
+  const ordered = [
+    ...["origin", "upstream"].filter((name) => remotes.includes(name)),
+    ...remotes.filter((name) => name !== "origin" && name !== "upstream"),
+  ];
+  for (const remote of ordered) {
+    try {
+      const { stdout } = await runGit(
+        ["symbolic-ref", "--quiet", "--short", `refs/remotes/${remote}/HEAD`],
+        repoRoot,
+      );
+      if (stdout.trim()) {
+        return stdout.trim();
+      }
+    } catch {
+      // <remote>/HEAD isn't set (not fetched with it)
+    }
+  }
+
+  for (const candidate of ["main", "master"]) {
+    if (await localBranchExists(repoRoot, candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+};
 
+/**
+ * List the names of configured remotes
+ */
+export const listRemotes = async (repoRoot: string): Promise<string[]> => {
   try {
-    // Try to create worktree with new branch
-    execFileSync("git", ["worktree", "add", "-b", branchName, worktreePath], {
-      cwd: repoRoot,
-      stdio: ["ignore", "pipe", "pipe"],
-      encoding: "utf8",
+    const { stdout } = await runGit(["remote"], repoRoot);
+    return stdout.split(/\r?\n/).filter((line) => line.length > 0);
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Find remote-tracking branches with this name on any remote
+ * Returns short refs such as ["origin/feature-x", "upstream/feature-x"]
+ */
+export const findRemoteBranches = async (
+  repoRoot: string,
+  branchName: string,
+): Promise<string[]> => {
+  const remotes = await listRemotes(repoRoot);
+  const matches = await Promise.all(
+    remotes.map(async (remote) => {
+      try {
+        await runGit(
+          ["show-ref", "--verify", "--quiet", `refs/remotes/${remote}/${branchName}`],
+          repoRoot,
+        );
+        return `${remote}/${branchName}`;
+      } catch {
+        return null;
+      }
+    }),
+  );
+  return matches.filter((ref): ref is string => ref !== null);
+};
+
+/**
+ * Fetch a single branch from a remote, updating its remote-tracking branch
+ * Never prompts for credentials; returns false if the fetch failed
+ */
+export const fetchBranch = async (
+  repoRoot: string,
+  remote: string,
+  branchName: string,
+): Promise<boolean> => {
+  try {
+    await runGit(["fetch", "--quiet", remote, branchName], repoRoot, {
+      GIT_TERMINAL_PROMPT: "0",
     });
-    return { success: true, path: worktreePath };
+    return true;
   } catch {
-    // Branch might already exist, try without -b
+    return false;
+  }
+};
+
+export type BranchNameResult =
+  | { success: true }
+  | { success: false; error: string };
+
+/**
+ * Explain the most common reasons git rejects a branch name
+ */
+const describeInvalidBranchName = (branchName: string): string | null => {
+  if (/\s/.test(branchName)) return "it contains whitespace";
+  if (branchName.startsWith("-")) return "it starts with '-'";
+  if (branchName.includes("..")) return "it contains '..'";
+  if (/[~^:?*[\\]/.test(branchName)) return "it contains one of ~ ^ : ? * [ \\";
+  if (branchName.includes("@{")) return "it contains '@{'";
+  if (/(^|\/)\.|\/\/|\/$|^\//.test(branchName)) {
+    return "a path component is empty or starts with '.'";
+  }
+  if (/\.lock$|\.$/.test(branchName)) return "it ends with '.lock' or '.'";
+  return null;
+};
+
+/**
+ * Check a new branch name with `git check-ref-format --branch`
+ */
+export const validateBranchName = async (
+  repoRoot: string,
+  branchName: string,
+): Promise<BranchNameResult> => {
+  if (!branchName) {
+    return { success: false, error: "Branch name cannot be empty." };
+  }
+
+  const reason = describeInvalidBranchName(branchName);
+  const invalid = {
+    success: false as const,
+    error: `'${branchName}' is not a valid branch name${reason ? `: ${reason}` : ""}.`,
+  };
+  // A leading '-' would be read as an option
+  if (branchName.startsWith("-")) {
+    return invalid;
+  }
+
+  try {
+    const { stdout } = await runGit(["check-ref-format", "--branch", branchName], repoRoot);
+    // Shorthands like @{-1} are expanded to another branch; they can't name a new one
+    return stdout.trim() === branchName ? { success: true } : invalid;
+  } catch {
+    return invalid;
+  }
+};
+
+export type CreatedWorktree = {
+  path: string;
+  createdBranch: boolean; // false when an existing branch was checked out
+  baseRef: string | null; // Start point of a new branch; null for HEAD or a reused branch
+  tracking: string | null; // Remote-tracking branch the new branch tracks, if any
+};
+
+export type CreateWorktreeOptions = {
+  baseRef?: string; // Start point for a new branch (default: the repo's default branch)
+  track?: string; // Remote-tracking branch (e.g. "origin/feature-x") to start from and track
+};
+
+export type CreateWorktreeResult =
+  | ({ success: true } & CreatedWorktree)
+  | { success: false; error: string };
+
+/**
+ * Create a worktree for a branch at worktreePath
+ * An existing local branch is checked out as-is; otherwise a new branch is
+ * created that tracks options.track, or starts untracked from options.baseRef
+ * (defaulting to the repo's default branch)
+ */
+export const createWorktree = async (
+  repoRoot: string,
+  branchName: string,
+  worktreePath: string,
+  options: CreateWorktreeOptions = {},
+): Promise<CreateWorktreeResult> => {
+  const { baseRef, track } = options;
+
+  if (await localBranchExists(repoRoot, branchName)) {
+    // An explicit base only makes sense for a new branch
+    if (baseRef || track) {
+      return {
+        success: false,
+        error: `Branch '${branchName}' already exists; a base ref only applies to new branches.`,
+      };
+    }
+
     try {
-      execFileSync("git", ["worktree", "add", worktreePath, branchName], {
-        cwd: repoRoot,
-        stdio: ["ignore", "pipe", "pipe"],
-        encoding: "utf8",
-      });
-      return { success: true, path: worktreePath };
+      await runGit(["worktree", "add", worktreePath, branchName], repoRoot);
+      return {
+        success: true,
+        path: worktreePath,
+        createdBranch: false,
+        baseRef: null,
+        tracking: null,
+      };
     } catch (e) {
-      const error = e instanceof Error ? e.message : String(e);
-      return { success: false, error };
+      return { success: false, error: errorMessage(e) };
+    }
+  }
+
+  if (track) {
+    try {
+      await runGit(["worktree", "add", "--track", "-b", branchName, worktreePath, track], repoRoot);
+      return {
+        success: true,
+        path: worktreePath,
+        createdBranch: true,
+        baseRef: track,
+        tracking: track,
+      };
+    } catch (e) {
+      return { success: false, error: errorMessage(e) };
     }
   }
-};
 
-export const getDefaultWorktreesDir = (repoRoot: string): string => {
-  // Place worktrees in a sibling 'worktrees' folder
-  const parentDir = repoRoot.replace(/\/[^/]+$/, "");
-  const repoName = repoRoot.split("/").pop() || "repo";
-  return `${parentDir}/${repoName}-worktrees`;
+  const startPoint = baseRef || (await getDefaultBranch(repoRoot));
+  try {
+    // --no-track: branching from e.g. origin/main must not make it the upstream
+    const args = ["worktree", "add", "--no-track", "-b", branchName, worktreePath];
+    if (startPoint) {
+      args.push(startPoint);
+    }
+    await runGit(args, repoRoot);
+    return {
+      success: true,
+      path: worktreePath,
+      createdBranch: true,
+      baseRef: startPoint,
+      tracking: null,
+    };
+  } catch (e) {
+    return { success: false, error: errorMessage(e) };
+  }
 };
 
 /**
  * Check if a worktree has uncommitted changes (dirty state)
  */
-export const hasUncommittedChanges = (worktreePath: string): boolean => {
+export const hasUncommittedChanges = async (worktreePath: string): Promise<boolean> => {
   try {
-    const output = execFileSync("git", ["status", "--porcelain"], {
-      cwd: worktreePath,
-      stdio: ["ignore", "pipe", "ignore"],
-      encoding: "utf8",
-    });
-    return output.trim().length > 0;
+    const { stdout } = await runGit(["status", "--porcelain"], worktreePath);
+    return stdout.trim().length > 0;
   } catch {
     // If we can't check, assume it's clean to avoid blocking
     return false;
   }
 };
 
+export type UpstreamStatus = {
+  upstream: string; // e.g. "origin/feature/login"
+  ahead: number;
+  behind: number;
+};
+
+export type WorkingTreeStatus = {
+  changes: ChangeCounts;
+  upstream: UpstreamStatus | null; // null without an upstream, or when it is gone
+};
+
 /**
- * Get the last commit date for a worktree
+ * Parse `git status --porcelain=v2 --branch` output
+ * Entries are "1 XY ..." (changed), "2 XY ..." (renamed/copied), "u XY ..."
+ * (unmerged) and "? path" (untracked); X is the staged state and Y the
+ * unstaged one, "." meaning unchanged. The next field is "N..." for files and
+ * "S<c><m><u>" for submodules with new commits, modified or untracked content
+ * (each "." when not). Stash entries aren't part of the output
  */
-export const getLastCommitDate = (worktreePath: string): Date | null => {
-  try {
-    const output = execFileSync(
-      "git",
-      ["log", "-1", "--format=%ci"],
-      {
-        cwd: worktreePath,
-        stdio: ["ignore", "pipe", "ignore"],
-        encoding: "utf8",
+export const parseStatusPorcelainV2 = (output: string): WorkingTreeStatus => {
+  const changes: ChangeCounts = {
+    staged: 0,
+    unstaged: 0,
+    untracked: 0,
+    conflicted: 0,
+    stashed: 0,
+    submodules: 0,
+  };
+  let upstreamName: string | null = null;
+  let aheadBehind: [number, number] | null = null;
+
+  for (const line of output.split(/\r?\n/)) {
+    if (line.startsWith("# branch.upstream ")) {
+      upstreamName = line.slice("# branch.upstream ".length).trim();
+    } else if (line.startsWith("# branch.ab ")) {
+      // "# branch.ab +<ahead> -<behind>", only present when the upstream exists
+      const [ahead, behind] = line
+        .slice("# branch.ab ".length)
+        .trim()
+        .split(/\s+/)
+        .map((n) => Math.abs(parseInt(n, 10)) || 0);
+      aheadBehind = [ahead, behind];
+    } else if (line.startsWith("1 ") || line.startsWith("2 ")) {
+      if (line[2] !== ".") changes.staged++;
+      if (line[3] !== ".") changes.unstaged++;
+      if (line.slice(5, 9).startsWith("S") && line.slice(6, 9) !== "...") {
+        changes.submodules++;
       }
+    } else if (line.startsWith("u ")) {
+      changes.conflicted++;
+    } else if (line.startsWith("? ")) {
+      changes.untracked++;
+    }
+  }
+
+  return {
+    changes,
+    upstream:
+      upstreamName && aheadBehind
+        ? { upstream: upstreamName, ahead: aheadBehind[0], behind: aheadBehind[1] }
+        : null,
+  };
+};
+
+/**
+ * Count stash entries made on a branch
+ * The stash is shared by all worktrees, so entries are matched by the branch
+ * named in their message ("WIP on <branch>: ..." or "On <branch>: ...")
+ */
+export const countBranchStashes = async (
+  repoPath: string,
+  branchName: string,
+): Promise<number> => {
+  try {
+    const { stdout } = await runGit(["stash", "list", "--format=%gs"], repoPath);
+    return stdout
+      .split(/\r?\n/)
+      .filter(
+        (line) =>
+          line.startsWith(`WIP on ${branchName}: `) || line.startsWith(`On ${branchName}: `),
+      ).length;
+  } catch {
+    return 0;
+  }
+};
+
+/**
+ * Get a worktree's staged/unstaged/untracked/conflicted counts, its branch's
+ * stash entries and how it compares with its upstream
+ * Returns null if git status fails
+ */
+export const getWorkingTreeStatus = async (
+  worktreePath: string,
+  branchName: string | null,
+): Promise<WorkingTreeStatus | null> => {
+  try {
+    const [{ stdout }, stashed] = await Promise.all([
+      runGit(["status", "--porcelain=v2", "--branch"], worktreePath),
+      branchName ? countBranchStashes(worktreePath, branchName) : 0,
+    ]);
+    const status = parseStatusPorcelainV2(stdout);
+    status.changes.stashed = stashed;
+    return status;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether any changes would be lost with the worktree (stash entries aren't)
+ */
+export const hasLocalChanges = (changes: ChangeCounts): boolean =>
+  changes.staged + changes.unstaged + changes.untracked + changes.conflicted > 0;
+
+/**
+ * Check whether a worktree's checkout declares submodules
+ */
+export const hasSubmodules = (worktreePath: string): boolean =>
+  existsSync(join(worktreePath, ".gitmodules"));
+
+export type OperationState = {
+  operations: GitOperation[];
+  unmergedCount: number;
+};
+
+/**
+ * Detect unfinished rebases, merges, cherry-picks, reverts, bisects and
+ * `git am` sessions from the marker files in the worktree's own git dir,
+ * and count the paths that still have conflicts
+ */
+export const getOperationState = async (worktreePath: string): Promise<OperationState> => {
+  try {
+    const [gitDir, unmerged] = await Promise.all([
+      runGit(["rev-parse", "--absolute-git-dir"], worktreePath),
+      runGit(["ls-files", "--unmerged"], worktreePath),
+    ]);
+    const has = (marker: string): boolean => existsSync(join(gitDir.stdout.trim(), marker));
+
+    const operations: GitOperation[] = [];
+    if (has("rebase-merge")) {
+      operations.push("rebase");
+    } else if (has("rebase-apply")) {
+      // The apply backend is shared by `git am` and older rebases
+      operations.push(has("rebase-apply/applying") ? "am" : "rebase");
+    }
+    if (has("MERGE_HEAD")) operations.push("merge");
+    if (has("CHERRY_PICK_HEAD")) operations.push("cherry-pick");
+    if (has("REVERT_HEAD")) operations.push("revert");
+    if (has("BISECT_LOG")) operations.push("bisect");
+
+    // One line per conflict stage: "<mode> <object> <stage>\t<path>"
+    const paths = new Set(
+      unmerged.stdout
+        .split(/\r?\n/)
+        .filter((line) => line.length > 0)
+        .map((line) => line.slice(line.indexOf("\t") + 1)),
     );
-    const dateStr = output.trim();
+    return { operations, unmergedCount: paths.size };
+  } catch {
+    return { operations: [], unmergedCount: 0 };
+  }
+};
+
+/**
+ * Name the branch an unfinished rebase is rewriting, if any
+ * HEAD is detached for the whole rebase, so `git worktree list` reports no
+ * branch; the rebase keeps the original ref in its head-name file
+ */
+export const getRebaseBranch = async (worktreePath: string): Promise<string | null> => {
+  try {
+    const { stdout } = await runGit(["rev-parse", "--absolute-git-dir"], worktreePath);
+    for (const dir of ["rebase-merge", "rebase-apply"]) {
+      const headNameFile = join(stdout.trim(), dir, "head-name");
+      if (!existsSync(headNameFile)) continue;
+      // "detached HEAD" when the rebase itself started without a branch
+      const headName = readFileSync(headNameFile, "utf8").trim();
+      return headName.startsWith("refs/heads/") ? headName.slice("refs/heads/".length) : null;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Count commits on HEAD that aren't on any remote-tracking branch
+ * Unlike the upstream comparison this also covers branches never pushed
+ */
+export const countUnpushedCommits = async (worktreePath: string): Promise<number> => {
+  try {
+    const { stdout } = await runGit(
+      ["rev-list", "--count", "HEAD", "--not", "--remotes"],
+      worktreePath,
+    );
+    return parseInt(stdout.trim(), 10) || 0;
+  } catch {
+    return 0;
+  }
+};
+
+/**
+ * Get the last commit date for a worktree
+ */
+export const getLastCommitDate = async (worktreePath: string): Promise<Date | null> => {
+  try {
+    const { stdout } = await runGit(["log", "-1", "--format=%ci"], worktreePath);
+    const dateStr = stdout.trim();
     if (!dateStr) return null;
     return new Date(dateStr);
   } catch {
@@ -231,48 +831,254 @@ export const getLastCommitDate = (worktreePath: string): Date | null => {
   }
 };
 
+export type BranchRemote = {
+  remote: string | null; // e.g. "upstream"; null when the branch is on no remote
+  isOnRemote: boolean; // False for a local branch, or when its tracked remote branch is gone
+};
+
 /**
- * Check if a branch exists on remote (origin)
+ * Find the remote a branch lives on
+ * Uses its tracking remote (branch.<name>.remote) when one is configured,
+ * otherwise the first remote with a branch of the same name
  */
-export const isBranchOnRemote = (
+export const getBranchRemote = async (
   repoRoot: string,
-  branchName: string
-): boolean => {
+  branchName: string,
+): Promise<BranchRemote> => {
   try {
-    const output = execFileSync(
-      "git",
-      ["branch", "-r", "--list", `origin/${branchName}`],
-      {
-        cwd: repoRoot,
-        stdio: ["ignore", "pipe", "ignore"],
-        encoding: "utf8",
-      }
+    const { stdout } = await runGit(
+      [
+        "for-each-ref",
+        "--format=%(upstream:remotename)%00%(upstream:track)",
+        `refs/heads/${branchName}`,
+      ],
+      repoRoot,
+    );
+    const [remote, track] = stdout.trim().split("\0");
+    // "." means it tracks another local branch
+    if (remote && remote !== ".") {
+      return { remote, isOnRemote: track !== "[gone]" };
+    }
+  } catch {
+    // Fall back to looking for a branch of the same name
+  }
+
+  const [match] = await findRemoteBranches(repoRoot, branchName);
+  return match
+    ? { remote: match.slice(0, match.length - branchName.length - 1), isOnRemote: true }
+    : { remote: null, isOnRemote: false };
+};
+
+/**
+ * Get the stable patch-ids of a patch stream (`git diff` or `git log -p`)
+ */
+const getPatchIds = async (repoRoot: string, patch: string): Promise<string[]> => {
+  if (!patch.trim()) return [];
+  const { stdout } = await runGit(["patch-id", "--stable"], repoRoot, undefined, patch);
+  // "<patch-id> <commit>" per patch
+  return stdout
+    .split(/\r?\n/)
+    .map((line) => line.split(" ")[0])
+    .filter((id) => id.length > 0);
+};
+
+// isBranchMerged results by "<branch tip> <target tip>"; a branch only needs
+// checking again once it or the target moves
+const mergedCache = new Map<string, boolean>();
+
+/**
+ * Check whether a commit is on the first-parent history of tip, i.e. it was
+ * the tip at some point rather than brought in by a merge
+ */
+const isOnFirstParentLine = async (
+  repoRoot: string,
+  commit: string,
+  tip: string,
+): Promise<boolean> => {
+  // The walk stops at commits reachable from `commit`; it ends right after
+  // `commit` exactly when that is on the line
+  const { stdout } = await runGit(["rev-list", "--first-parent", `${commit}..${tip}`], repoRoot);
+  const oldest = stdout.trim().split(/\s+/).pop();
+  if (!oldest) return true;
+  const { stdout: parent } = await runGit(["rev-parse", `${oldest}^`], repoRoot);
+  return parent.trim() === commit;
+};
+
+/**
+ * The uncached part of isBranchMerged
+ */
+const checkBranchMerged = async (
+  repoRoot: string,
+  branchTip: string,
+  targetTip: string,
+  branchTree: string,
+  targetTree: string,
+): Promise<boolean> => {
+  let isAncestor = true;
+  try {
+    await runGit(["merge-base", "--is-ancestor", branchTip, targetTip], repoRoot);
+  } catch {
+    isAncestor = false;
+  }
+  if (isAncestor) {
+    return !(await isOnFirstParentLine(repoRoot, branchTip, targetTip));
+  }
+
+  if (branchTree === targetTree) {
+    return true;
+  }
+
+  const base = (await runGit(["merge-base", targetTip, branchTip], repoRoot)).stdout.trim();
+  const baseTree = (await runGit(["rev-parse", `${base}^{tree}`], repoRoot)).stdout.trim();
+  if (baseTree === branchTree) {
+    return false;
+  }
+
+  // The branch's changes as one patch, compared with each commit the target
+  // gained since the branch forked
+  const [branchDiff, targetLog] = await Promise.all([
+    runGit(["diff", "--no-color", "--no-ext-diff", base, branchTip], repoRoot),
+    runGit(
+      [
+        "log",
+        "-p",
+        "--no-color",
+        "--no-ext-diff",
+        "--no-merges",
+        "--format=commit %H",
+        `${base}..${targetTip}`,
+      ],
+      repoRoot,
+    ),
+  ]);
+  const [squashedId] = await getPatchIds(repoRoot, branchDiff.stdout);
+  if (!squashedId) {
+    return false;
+  }
+  const targetIds = await getPatchIds(repoRoot, targetLog.stdout);
+  return targetIds.includes(squashedId);
+};
+
+/**
+ * Check whether a branch's changes are already in the target branch
+ * (e.g. "origin/main"). Covers regular merges (the branch is an ancestor of
+ * the target) and squash merges: the target has the branch's exact tree, or a
+ * commit on the target has the same patch-id as all of the branch's commits
+ * squashed together. A branch without changes of its own (just created, even
+ * from an older target commit) doesn't count as merged; that also means a
+ * fast-forwarded branch isn't detected, as it looks exactly the same
+ * Results are cached per branch and target tip; nothing is written to the repo
+ */
+export const isBranchMerged = async (
+  repoRoot: string,
+  branchName: string,
+  target: string,
+): Promise<boolean> => {
+  try {
+    const { stdout } = await runGit(
+      [
+        "rev-parse",
+        `refs/heads/${branchName}`,
+        target,
+        `refs/heads/${branchName}^{tree}`,
+        `${target}^{tree}`,
+      ],
+      repoRoot,
+    );
+    const [branchTip, targetTip, branchTree, targetTree] = stdout.trim().split(/\s+/);
+    if (branchTip === targetTip) {
+      return false;
+    }
+
+    const cacheKey = `${branchTip} ${targetTip}`;
+    const cached = mergedCache.get(cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const merged = await checkBranchMerged(
+      repoRoot,
+      branchTip,
+      targetTip,
+      branchTree,
+      targetTree,
     );
-    return output.trim().length > 0;
+    mergedCache.set(cacheKey, merged);
+    return merged;
   } catch {
     return false;
   }
 };
 
 /**
- * Enrich worktree info with metadata (dirty status, remote status, last modified)
+ * Enrich worktree info with metadata (dirty status, remote status, upstream
+ * ahead/behind, last modified, merged into mergeTarget, operations in progress)
  */
-export const enrichWorktreeInfo = (
+export const enrichWorktreeInfo = async (
   repoRoot: string,
-  worktree: WorktreeInfo
-): WorktreeInfo => {
+  worktree: WorktreeInfo,
+  mergeTarget: string | null = null,
+): Promise<WorktreeInfo> => {
+  // The directory is gone, so there's nothing to inspect; git never marks a
+  // locked worktree prunable, so check the directory too
+  if (worktree.isPrunable || !existsSync(worktree.path)) {
+    return { ...worktree, isMissing: true };
+  }
+
+  // The default branch can't be merged into itself ("origin/main" → "main")
+  const checkMerged =
+    worktree.branch !== null &&
+    mergeTarget !== null &&
+    mergeTarget !== worktree.branch &&
+    !mergeTarget.endsWith(`/${worktree.branch}`);
+
+  const [status, branchRemote, lastModified, isMerged, operationState] =
+    await Promise.all([
+      getWorkingTreeStatus(worktree.path, worktree.branch),
+      worktree.branch ? getBranchRemote(repoRoot, worktree.branch) : null,
+      getLastCommitDate(worktree.path),
+      checkMerged ? isBranchMerged(repoRoot, worktree.branch!, mergeTarget!) : false,
+      getOperationState(worktree.path),
+    ]);
   return {
     ...worktree,
-    isDirty: hasUncommittedChanges(worktree.path),
-    isOnRemote: worktree.branch
-      ? isBranchOnRemote(repoRoot, worktree.branch)
-      : false,
-    lastModified: getLastCommitDate(worktree.path),
+    isDirty: status ? hasLocalChanges(status.changes) : false,
+    changes: status?.changes ?? worktree.changes,
+    isOnRemote: branchRemote?.isOnRemote ?? false,
+    remote: branchRemote?.remote ?? null,
+    upstream: status?.upstream?.upstream ?? null,
+    ahead: status?.upstream?.ahead ?? 0,
+    behind: status?.upstream?.behind ?? 0,
+    lastModified,
+    isMerged,
+    operations: operationState.operations,
+    unmergedCount: operationState.unmergedCount,
   };
 };
 
+/**
+ * Enrich all worktrees concurrently (bounded by the git pool)
+ * Merged status is checked against the repo's default branch
+ * onEnriched fires per worktree as soon as its metadata is in, so a UI can
+ * update rows one by one instead of waiting for the slowest
+ */
+export const enrichWorktrees = async (
+  repoRoot: string,
+  worktrees: WorktreeInfo[],
+  onEnriched?: (worktree: WorktreeInfo, index: number) => void,
+): Promise<WorktreeInfo[]> => {
+  const mergeTarget = await getDefaultBranch(repoRoot);
+  return Promise.all(
+    worktrees.map(async (worktree, index) => {
+      const enriched = await enrichWorktreeInfo(repoRoot, worktree, mergeTarget);
+      onEnriched?.(enriched, index);
+      return enriched;
+    }),
+  );
+};
+
 /**
  * Check if a worktree is the main worktree (the original repo clone)
+ * Always false for a bare repository, which has no main worktree
  */
 export const isMainWorktree = (
   repoRoot: string,
@@ -288,28 +1094,28 @@ export type UnlinkResult =
 
 /**
  * Unlink a worktree - removes the worktree directory but keeps the branch
+ * force removes it despite uncommitted changes; forceLocked also removes a
+ * locked worktree (git's double --force)
  */
-export const unlinkWorktree = (
+export const unlinkWorktree = async (
   repoRoot: string,
   worktreePath: string,
   force: boolean = false,
-): UnlinkResult => {
+  forceLocked: boolean = false,
+): Promise<UnlinkResult> => {
   try {
     const args = ["worktree", "remove"];
-    if (force) {
+    if (forceLocked) {
+      args.push("--force", "--force");
+    } else if (force) {
       args.push("--force");
     }
     args.push(worktreePath);
 
-    execFileSync("git", args, {
-      cwd: repoRoot,
-      stdio: ["ignore", "pipe", "pipe"],
-      encoding: "utf8",
-    });
+    await runGit(args, repoRoot);
     return { success: true };
   } catch (e) {
-    const error = e instanceof Error ? e.message : String(e);
-    return { success: false, error };
+    return { success: false, error: errorMessage(e) };
   }
 };
 
@@ -320,29 +1126,161 @@ export type DeleteResult =
 /**
  * Delete a worktree AND its local branch (never touches remote)
  */
-export const deleteWorktree = (
+export const deleteWorktree = async (
   repoRoot: string,
   worktreePath: string,
   branchName: string,
   force: boolean = false,
-): DeleteResult => {
+  forceLocked: boolean = false,
+): Promise<DeleteResult> => {
   // First unlink the worktree
-  const unlinkResult = unlinkWorktree(repoRoot, worktreePath, force);
+  const unlinkResult = await unlinkWorktree(repoRoot, worktreePath, force, forceLocked);
   if (!unlinkResult.success) {
     return { success: false, error: unlinkResult.error, step: "unlink" };
   }
 
   // Then delete the local branch (never remote!)
+  const branchResult = await deleteBranch(repoRoot, branchName);
+  if (!branchResult.success) {
+    return { ...branchResult, step: "branch" };
+  }
+  return { success: true };
+};
+
+export type LockResult =
+  | { success: true }
+  | { success: false; error: string };
+
+/**
+ * Lock a worktree so git won't prune, move or remove it
+ */
+export const lockWorktree = async (
+  repoRoot: string,
+  worktreePath: string,
+  reason?: string,
+): Promise<LockResult> => {
   try {
-    execFileSync("git", ["branch", "-D", branchName], {
-      cwd: repoRoot,
-      stdio: ["ignore", "pipe", "pipe"],
-      encoding: "utf8",
-    });
+    const args = ["worktree", "lock"];
+    if (reason) {
+      args.push("--reason", reason);
+    }
+    args.push(worktreePath);
+    await runGit(args, repoRoot);
+    return { success: true };
+  } catch (e) {
+    return { success: false, error: errorMessage(e) };
+  }
+};
+
+/**
+ * Unlock a worktree locked with lockWorktree (or `git worktree lock`)
+ */
+export const unlockWorktree = async (
+  repoRoot: string,
+  worktreePath: string,
+): Promise<LockResult> => {
+  try {
+    await runGit(["worktree", "unlock", worktreePath], repoRoot);
+    return { success: true };
+  } catch (e) {
+    return { success: false, error: errorMessage(e) };
+  }
+};
+
+export type MoveResult =
+  | { success: true }
+  | { success: false; error: string };
+
+/**
+ * Move a worktree to a new path with `git worktree move`
+ * forceLocked also moves a locked worktree (git's double --force)
+ */
+export const moveWorktree = async (
+  repoRoot: string,
+  worktreePath: string,
+  newPath: string,
+  forceLocked: boolean = false,
+): Promise<MoveResult> => {
+  try {
+    const args = ["worktree", "move"];
+    if (forceLocked) {
+      args.push("--force", "--force");
+    }
+    args.push(worktreePath, newPath);
+    await runGit(args, repoRoot);
+    return { success: true };
+  } catch (e) {
+    return { success: false, error: errorMessage(e) };
+  }
+};
+
+export type RepairedWorktree = {
+  path: string; // The .git file or admin gitdir file that was rewritten
+  problem: string; // What git fixed, e.g. "gitdir incorrect"
+};
+
+export type RepairResult =
+  | { success: true; repaired: RepairedWorktree[] }
+  | { success: false; error: string; repaired: RepairedWorktree[] };
+
+/**
+ * Parse the "repair: <problem>: <path>" lines of `git worktree repair`
+ */
+const parseRepairOutput = (output: string): RepairedWorktree[] => {
+  const repaired: RepairedWorktree[] = [];
+  for (const line of output.split(/\r?\n/)) {
+    const match = line.match(/^repair: ([^:]+): (.+)$/);
+    if (match) {
+      repaired.push({ problem: match[1], path: match[2] });
+    }
+  }
+  return repaired;
+};
+
+/**
+ * Fix broken links between the repository and its worktrees with `git worktree repair`
+ * Pass the new paths of worktrees that were moved by hand; ones moved
+ * together with the main repository are found without them
+ */
+export const repairWorktrees = async (
+  repoRoot: string,
+  paths: string[] = [],
+): Promise<RepairResult> => {
+  try {
+    const { stdout, stderr } = await runGit(
+      ["worktree", "repair", ...paths],
+      repoRoot,
+      UNTRANSLATED_ENV,
+    );
+    return { success: true, repaired: parseRepairOutput(`${stdout}\n${stderr}`) };
+  } catch (e) {
+    // Some entries can be fixed even when others fail; the message carries git's stderr
+    const message = errorMessage(e);
+    const errors = message.split(/\r?\n/).filter((line) => line.startsWith("error: "));
+    return {
+      success: false,
+      error: errors.map((line) => line.slice("error: ".length)).join("; ") || message,
+      repaired: parseRepairOutput(message),
+    };
+  }
+};
+
+export type DeleteBranchResult =
+  | { success: true }
+  | { success: false; error: string };
+
+/**
+ * Delete a local branch (never remote), even if it isn't merged
+ */
+export const deleteBranch = async (
+  repoRoot: string,
+  branchName: string,
+): Promise<DeleteBranchResult> => {
+  try {
+    await runGit(["branch", "-D", branchName], repoRoot);
     return { success: true };
   } catch (e) {
-    const error = e instanceof Error ? e.message : String(e);
-    return { success: false, error, step: "branch" };
+    return { success: false, error: errorMessage(e) };
   }
 };
 
@@ -353,21 +1291,16 @@ export type CreateBranchResult =
 /**
  * Create a new branch from a specific commit
  */
-export const createBranchFromCommit = (
+export const createBranchFromCommit = async (
   repoRoot: string,
   branchName: string,
   commitHash: string,
-): CreateBranchResult => {
+): Promise<CreateBranchResult> => {
   try {
-    execFileSync("git", ["branch", branchName, commitHash], {
-      cwd: repoRoot,
-      stdio: ["ignore", "pipe", "pipe"],
-      encoding: "utf8",
-    });
+    await runGit(["branch", branchName, commitHash], repoRoot);
     return { success: true };
   } catch (e) {
-    const error = e instanceof Error ? e.message : String(e);
-    return { success: false, error };
+    return { success: false, error: errorMessage(e) };
   }
 };
 
@@ -379,35 +1312,86 @@ export type CheckoutResult =
  * Checkout a branch in a specific worktree
  * Note: This changes the branch the worktree is tracking
  */
-export const checkoutBranch = (
+export const checkoutBranch = async (
   worktreePath: string,
   branchName: string,
-): CheckoutResult => {
+): Promise<CheckoutResult> => {
   try {
-    execFileSync("git", ["checkout", branchName], {
-      cwd: worktreePath,
-      stdio: ["ignore", "pipe", "pipe"],
-      encoding: "utf8",
-    });
+    await runGit(["checkout", branchName], worktreePath);
     return { success: true };
   } catch (e) {
-    const error = e instanceof Error ? e.message : String(e);
-    return { success: false, error };
+    return { success: false, error: errorMessage(e) };
   }
 };
 
 /**
  * Get the current HEAD commit hash for a worktree
  */
-export const getHeadCommit = (worktreePath: string): string | null => {
+export const getHeadCommit = async (worktreePath: string): Promise<string | null> => {
   try {
-    const output = execFileSync("git", ["rev-parse", "HEAD"], {
-      cwd: worktreePath,
-      stdio: ["ignore", "pipe", "ignore"],
-      encoding: "utf8",
-    });
-    return output.trim() || null;
+    const { stdout } = await runGit(["rev-parse", "HEAD"], worktreePath);
+    return stdout.trim() || null;
   } catch {
     return null;
   }
 };
+
+export type PrunableWorktree = {
+  name: string; // Admin directory name under .git/worktrees
+  reason: string;
+};
+
+/**
+ * Parse the "Removing worktrees/<name>: <reason>" lines of `git worktree prune --verbose`
+ */
+const parsePruneOutput = (result: GitOutput): PrunableWorktree[] => {
+  // prune reports what it removes on stderr
+  const prunable: PrunableWorktree[] = [];
+  for (const line of `${result.stdout}\n${result.stderr}`.split(/\r?\n/)) {
+    const match = line.match(/^Removing worktrees\/([^:]+): (.+)$/);
+    if (match) {
+      prunable.push({ name: match[1], reason: match[2] });
+    }
+  }
+  return prunable;
+};
+
+/**
+ * Preview which worktree entries `git worktree prune` would remove
+ */
+export const listPrunableWorktrees = async (
+  repoRoot: string,
+): Promise<PrunableWorktree[]> => {
+  try {
+    return parsePruneOutput(
+      await runGit(
+        ["worktree", "prune", "--dry-run", "--verbose"],
+        repoRoot,
+        UNTRANSLATED_ENV,
+      ),
+    );
+  } catch {
+    return [];
+  }
+};
+
+export type PruneResult =
+  | { success: true; pruned: PrunableWorktree[] }
+  | { success: false; error: string };
+
+/**
+ * Run `git worktree prune`, removing the admin entries of stale worktrees
+ * Locked worktrees are left alone by git
+ */
+export const pruneWorktrees = async (repoRoot: string): Promise<PruneResult> => {
+  try {
+    const result = await runGit(
+      ["worktree", "prune", "--verbose"],
+      repoRoot,
+      UNTRANSLATED_ENV,
+    );
+    return { success: true, pruned: parsePruneOutput(result) };
+  } catch (e) {
+    return { success: false, error: errorMessage(e) };
+  }
+};
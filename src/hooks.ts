@@ -11,10 +11,11 @@ export type HookCallbacks = {
 };
 
 /**
- * Run a post-create hook command with streaming output
- * Returns a function to abort the hook if needed
+ * Run a shell command in a worktree with streaming output
+ * stdout and stderr are both passed to onOutput as they arrive
+ * Returns a function to abort the command if needed
  */
-export const runPostCreateHook = (
+export const runShellCommand = (
   worktreePath: string,
   command: string,
   callbacks: HookCallbacks
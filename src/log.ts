@@ -0,0 +1,18 @@
+let verboseEnabled = false;
+
+/**
+ * Enable or disable diagnostic output (--verbose)
+ */
+export const setVerbose = (enabled: boolean): void => {
+  verboseEnabled = enabled;
+};
+
+/**
+ * Print a diagnostic message to stderr when --verbose is set
+ * Goes through console.error so the TUI can capture it while rendering
+ */
+export const logVerbose = (message: string): void => {
+  if (verboseEnabled) {
+    console.error(`[verbose] ${message}`);
+  }
+};
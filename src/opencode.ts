@@ -1,4 +1,6 @@
 import { spawn, spawnSync } from "node:child_process";
+import { accessSync, constants } from "node:fs";
+import { delimiter, join } from "node:path";
 
 /**
  * Check if a command is available in PATH
@@ -10,6 +12,42 @@ export const isCommandAvailable = (command: string): boolean => {
   return result.status === 0;
 };
 
+/**
+ * Find an executable on PATH without running it
+ * Returns the resolved path, or null if not found
+ */
+export const findOnPath = (command: string): string | null => {
+  const isExecutable = (file: string): boolean => {
+    try {
+      accessSync(file, constants.X_OK);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  // Explicit paths are checked as-is
+  if (command.includes("/") || command.includes("\\")) {
+    return isExecutable(command) ? command : null;
+  }
+
+  const extensions =
+    process.platform === "win32"
+      ? (process.env.PATHEXT || ".EXE;.CMD;.BAT;.COM").split(";")
+      : [""];
+
+  for (const dir of (process.env.PATH || "").split(delimiter)) {
+    if (!dir) continue;
+    for (const ext of extensions) {
+      const candidate = join(dir, command + ext);
+      if (isExecutable(candidate)) {
+        return candidate;
+      }
+    }
+  }
+  return null;
+};
+
 /**
  * @deprecated Use isCommandAvailable instead
  */
@@ -18,19 +56,38 @@ export const isOpenCodeAvailable = (): boolean => {
 };
 
 /**
- * Launch a command in a worktree directory
+ * Run a command in a worktree directory and resolve with its exit code
  * If customCommand is provided, uses that instead of opencode
  */
-export const launchCommand = (cwd: string, customCommand?: string): void => {
+export const runLaunchCommand = (
+  cwd: string,
+  customCommand?: string,
+): Promise<number> => {
   const command = customCommand || "opencode";
-  
-  const child = spawn(command, [], {
-    cwd,
-    stdio: "inherit",
+
+  return new Promise((resolve) => {
+    const child = spawn(command, [], {
+      cwd,
+      stdio: "inherit",
+    });
+
+    child.on("exit", (code: number | null) => {
+      resolve(typeof code === "number" ? code : 0);
+    });
+
+    child.on("error", (err: Error) => {
+      console.error(`Failed to launch ${command}: ${err.message}`);
+      resolve(1);
+    });
   });
+};
 
-  child.on("exit", (code: number | null) => {
-    const exitCode = typeof code === "number" ? code : 0;
+/**
+ * Launch a command in a worktree directory and exit with its exit code
+ * If customCommand is provided, uses that instead of opencode
+ */
+export const launchCommand = (cwd: string, customCommand?: string): void => {
+  void runLaunchCommand(cwd, customCommand).then((exitCode) => {
     process.exit(exitCode);
   });
 };
@@ -42,34 +99,30 @@ export const launchOpenCode = (cwd: string): void => {
   launchCommand(cwd);
 };
 
+/**
+ * Get the platform's default command for opening folders
+ */
+export const getSystemOpenCommand = (): string => {
+  const platform = process.platform;
+
+  if (platform === "darwin") {
+    return "open";
+  }
+  if (platform === "win32") {
+    return "explorer";
+  }
+  // Linux and others
+  return "xdg-open";
+};
+
 /**
  * Open a path in the system file manager or with a custom command
  * If customCommand is provided, uses that instead of the system default
  */
 export const openInFileManager = (path: string, customCommand?: string): boolean => {
-  let command: string;
-  let args: string[];
-
-  if (customCommand) {
-    // Use custom command (e.g., "webstorm", "code")
-    command = customCommand;
-    args = [path];
-  } else {
-    // Use system default
-    const platform = process.platform;
-
-    if (platform === "darwin") {
-      command = "open";
-      args = [path];
-    } else if (platform === "win32") {
-      command = "explorer";
-      args = [path];
-    } else {
-      // Linux and others
-      command = "xdg-open";
-      args = [path];
-    }
-  }
+  // Use custom command (e.g., "webstorm", "code") or the system default
+  const command = customCommand || getSystemOpenCommand();
+  const args = [path];
 
   try {
     spawn(command, args, {
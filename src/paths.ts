@@ -0,0 +1,87 @@
+import { createHash } from "node:crypto";
+import { homedir } from "node:os";
+import { basename, dirname, join, resolve } from "node:path";
+
+// Sibling folder next to the repo: /code/app -> /code/app-worktrees/<branch>
+export const DEFAULT_WORKTREE_PATH_TEMPLATE = "{repoParent}/{repoName}-worktrees/{branchSlug}";
+
+// Bare repos keep their worktrees next to them: /code/app.git -> /code/<branch>
+export const BARE_WORKTREE_PATH_TEMPLATE = "{repoParent}/{branchSlug}";
+
+/**
+ * The template used when worktreePathTemplate isn't configured
+ */
+export const defaultWorktreePathTemplate = (isBare: boolean): string =>
+  isBare ? BARE_WORKTREE_PATH_TEMPLATE : DEFAULT_WORKTREE_PATH_TEMPLATE;
+
+/**
+ * Map a branch name to a single directory name, e.g. `feature/login` → `feature-login`
+ * Slashes and any other characters that are awkward in paths become `-`
+ */
+export const branchSlug = (branchName: string): string => {
+  const slug = branchName
+    .replace(/[^\p{L}\p{N}._-]+/gu, "-")
+    .replace(/^[-.]+|[-.]+$/g, "");
+  return slug || "branch";
+};
+
+const formatDate = (date: Date): string => {
+  const pad = (value: number): string => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Expand a worktreePathTemplate for a branch into an absolute path
+ * Placeholders: {repoRoot}, {repoName}, {repoParent}, {branch}, {branchSlug},
+ * {date} (YYYY-MM-DD); a leading ~ is the home directory. {repoName} drops the
+ * .git suffix of a bare repository. A template without {branch} or
+ * {branchSlug} names the folder the worktrees go into. Relative paths are
+ * resolved against the repo root; unknown placeholders are left as-is
+ */
+export const expandWorktreePathTemplate = (
+  template: string,
+  repoRoot: string,
+  branchName: string,
+  date: Date = new Date(),
+): string => {
+  const values: Record<string, string> = {
+    repoRoot,
+    repoName: basename(repoRoot).replace(/\.git$/, "") || basename(repoRoot),
+    repoParent: dirname(repoRoot),
+    branch: branchName,
+    branchSlug: branchSlug(branchName),
+    date: formatDate(date),
+  };
+
+  let expanded = template
+    .trim()
+    .replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match)
+    .replace(/^~(?=$|[\\/])/, homedir());
+  if (!/\{branch(Slug)?\}/.test(template)) {
+    expanded = join(expanded, values.branchSlug);
+  }
+  return resolve(repoRoot, expanded);
+};
+
+/**
+ * Pick the directory for a branch's worktree from the template (or the default)
+ * When the slug differs from the branch name (`feature/login` → `feature-login`),
+ * a short hash of the full name is appended, so `feature/login` and
+ * `feature-login` never share a directory. The result depends only on the
+ * branch name and template; templates using {branch} keep names as-is and
+ * need no hash
+ */
+export const resolveWorktreePath = (
+  repoRoot: string,
+  branchName: string,
+  template?: string,
+): string => {
+  const effectiveTemplate = template || DEFAULT_WORKTREE_PATH_TEMPLATE;
+  const path = expandWorktreePathTemplate(effectiveTemplate, repoRoot, branchName);
+  if (/\{branch\}/.test(effectiveTemplate) || branchSlug(branchName) === branchName) {
+    return path;
+  }
+
+  const hash = createHash("sha1").update(branchName).digest("hex").slice(0, 7);
+  return `${path}-${hash}`;
+};
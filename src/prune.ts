@@ -0,0 +1,92 @@
+import { existsSync } from "node:fs";
+import { deleteBranch, listWorktrees, pruneWorktrees, unlockWorktree } from "./git.js";
+import type { WorktreeInfo } from "./types.js";
+
+export type PruneFlowOptions = {
+  deleteBranches?: boolean; // Also delete the local branches the stale worktrees had checked out
+  includeLocked?: boolean; // Unlock and prune locked worktrees too (git skips them)
+};
+
+export type BranchFailure = {
+  branch: string;
+  error: string;
+};
+
+export type PruneFlowResult =
+  | {
+      success: true;
+      pruned: number; // Worktree entries git removed
+      skippedLocked: number; // Stale but locked, left in place
+      deletedBranches: string[];
+      branchFailures: BranchFailure[];
+    }
+  | { success: false; error: string };
+
+/**
+ * List worktrees whose directory or gitdir is gone
+ * This is the preview of what `git worktree prune` will remove, plus locked
+ * worktrees with a missing directory (e.g. on an unplugged drive), which git
+ * keeps unless they are unlocked first
+ */
+export const findStaleWorktrees = async (repoRoot: string): Promise<WorktreeInfo[]> => {
+  const worktrees = await listWorktrees(repoRoot, { enrich: false });
+  return worktrees
+    .filter((wt) => wt.isPrunable || (wt.isLocked && !existsSync(wt.path)))
+    .map((wt) =>
+      wt.isPrunable ? wt : { ...wt, prunableReason: "directory missing (locked)" },
+    );
+};
+
+/**
+ * Prune stale worktrees and optionally delete the branches left behind
+ * This is the shared pipeline used by both the TUI and the `prune` subcommand;
+ * only branches of the previewed worktrees are deleted, and only once no
+ * remaining worktree has them checked out
+ */
+export const pruneStaleWorktrees = async (
+  repoRoot: string,
+  stale: WorktreeInfo[],
+  options: PruneFlowOptions = {},
+): Promise<PruneFlowResult> => {
+  const locked = stale.filter((wt) => wt.isLocked);
+  if (options.includeLocked) {
+    for (const worktree of locked) {
+      const unlockResult = await unlockWorktree(repoRoot, worktree.path);
+      if (!unlockResult.success) {
+        return unlockResult;
+      }
+    }
+  }
+
+  const result = await pruneWorktrees(repoRoot);
+  if (!result.success) {
+    return result;
+  }
+
+  const deletedBranches: string[] = [];
+  const branchFailures: BranchFailure[] = [];
+
+  if (options.deleteBranches) {
+    const remaining = await listWorktrees(repoRoot, { enrich: false });
+    const inUse = new Set(remaining.map((wt) => wt.branch));
+
+    for (const worktree of stale) {
+      if (!worktree.branch || inUse.has(worktree.branch)) continue;
+
+      const branchResult = await deleteBranch(repoRoot, worktree.branch);
+      if (branchResult.success) {
+        deletedBranches.push(worktree.branch);
+      } else {
+        branchFailures.push({ branch: worktree.branch, error: branchResult.error });
+      }
+    }
+  }
+
+  return {
+    success: true,
+    pruned: result.pruned.length,
+    skippedLocked: options.includeLocked ? 0 : locked.length,
+    deletedBranches,
+    branchFailures,
+  };
+};
@@ -0,0 +1,71 @@
+import { spawn } from "node:child_process";
+import { openSync, writeSync } from "node:fs";
+
+// Set in the picker child process; names the fd that receives the selection
+const RESULT_FD_ENV = "OPENCODE_WORKTREE_RESULT_FD";
+
+/**
+ * Whether the TUI can render on stdout
+ * The native renderer writes frames straight to fd 1, so a captured stdout
+ * (e.g., `$(opencode-worktree --print-path)`) can't host the TUI
+ */
+export const canRenderOnStdout = (): boolean => {
+  return Boolean(process.stdout.isTTY) || Boolean(process.env[RESULT_FD_ENV]);
+};
+
+/**
+ * Write the picker result to the result fd (in the child) or to stdout
+ */
+export const writeResult = (text: string): void => {
+  const fd = Number(process.env[RESULT_FD_ENV]) || 1;
+  writeSync(fd, text);
+};
+
+/**
+ * Arguments needed to start this program again
+ * Compiled bun binaries embed the script under a virtual /$bunfs (B:/~BUN on
+ * Windows) path that must not be passed back; node/bun dev runs need it
+ */
+const getSelfArgs = (): string[] => {
+  const script = process.argv[1];
+  if (!script || /^(\/\$bunfs\/|[A-Za-z]:[\\/]~BUN[\\/])/.test(script)) {
+    return [];
+  }
+  return [script];
+};
+
+/**
+ * Re-run this program with the terminal as stdout and forward whatever the
+ * picker selects to our own (captured) stdout
+ * Resolves with the child's exit code
+ */
+export const runOnTerminal = (args: string[]): Promise<number> => {
+  let ttyFd: number;
+  try {
+    ttyFd = openSync("/dev/tty", "w");
+  } catch {
+    console.error("No terminal available to show the picker.");
+    return Promise.resolve(1);
+  }
+
+  return new Promise((resolve) => {
+    const child = spawn(process.execPath, [...getSelfArgs(), ...args], {
+      stdio: ["inherit", ttyFd, "inherit", "pipe"],
+      env: { ...process.env, [RESULT_FD_ENV]: "3" },
+    });
+
+    let result = "";
+    child.stdio[3]?.on("data", (data: Buffer) => {
+      result += data.toString();
+    });
+
+    child.on("close", (code: number | null) => {
+      process.stdout.write(result, () => resolve(code ?? 1));
+    });
+
+    child.on("error", (err: Error) => {
+      console.error(`Failed to start picker: ${err.message}`);
+      resolve(1);
+    });
+  });
+};
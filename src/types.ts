@@ -1,12 +1,42 @@
+/**
+ * A multi-step git operation that can be left unfinished in a worktree
+ */
+export type GitOperation = "rebase" | "am" | "merge" | "cherry-pick" | "revert" | "bisect";
+
+/**
+ * Uncommitted changes in a worktree, from `git status --porcelain=v2`
+ */
+export type ChangeCounts = {
+  staged: number;
+  unstaged: number;
+  untracked: number;
+  conflicted: number;
+  stashed: number; // Stash entries made on the worktree's branch
+  submodules: number; // Submodules with new commits, modified or untracked content
+};
+
 export type WorktreeInfo = {
   path: string;
   head: string;
   branch: string | null;
   isDetached: boolean;
+  isLocked: boolean;
+  lockReason: string | null; // Reason given to `git worktree lock --reason`, if any
+  isPrunable: boolean; // Directory or gitdir is gone; `git worktree prune` would remove it
+  prunableReason: string | null;
   // Metadata
+  isMissing: boolean; // Directory is gone; unlike isPrunable also set for locked worktrees
   isDirty: boolean;
+  changes: ChangeCounts;
   isOnRemote: boolean;
+  remote: string | null; // Remote the branch lives on: its tracking remote, else one with the same branch name
+  upstream: string | null; // Configured upstream (@{u}), e.g. "origin/feature/login"
+  ahead: number; // Commits on the branch not on its upstream
+  behind: number; // Commits on the upstream not on the branch
   lastModified: Date | null;
+  isMerged: boolean; // Branch is merged (or squash-merged) into the default branch
+  operations: GitOperation[]; // In progress (stopped) in this worktree; bisect can overlap with others
+  unmergedCount: number; // Paths with unresolved conflicts
 };
 
 /**
@@ -16,6 +46,9 @@ export type Config = {
   postCreateHook?: string;
   openCommand?: string; // Custom command to open worktree folder (e.g., "webstorm", "code")
   launchCommand?: string; // Custom command to launch instead of opencode (e.g., "cursor", "claude")
+  worktreePathTemplate?: string; // Where new worktrees go (e.g., "{repoRoot}/.worktrees/{branchSlug}")
+  identityRemote?: string; // Remote whose URL is the repo key (e.g., "upstream"); only read from "default"
+  initSubmodules?: boolean | "auto"; // Init submodules after create; "auto" does it when .gitmodules exists
 };
 
 /**
@@ -32,5 +65,5 @@ export type GlobalConfig = {
  */
 export type LoadRepoConfigResult = {
   config: Config;
-  repoKey: string | null; // null means no remote origin configured
+  repoKey: string | null; // null means the repo has no remotes
 };
@@ -11,27 +11,61 @@ import {
   type SelectOption,
 } from "@opentui/core";
 import { checkForUpdatesOnLaunch, getCachedUpdateNotice } from "./update-check.js";
-import { basename } from "node:path";
+import { basename, resolve } from "node:path";
 import {
   checkoutBranch,
   createBranchFromCommit,
-  createWorktree,
   deleteWorktree,
-  getDefaultWorktreesDir,
+  enrichWorktrees,
+  getDefaultBranch,
+  getOperationState,
   getHeadCommit,
+  getWorkingTreeStatus,
+  hasLocalChanges,
   hasUncommittedChanges,
+  isBareRepository,
   isMainWorktree,
   listWorktrees,
   resolveRepoRoot,
+  lockWorktree,
+  moveWorktree,
+  repairWorktrees,
   unlinkWorktree,
+  unlockWorktree,
+  validateBranchName,
 } from "./git.js";
+import { findStaleWorktrees, pruneStaleWorktrees } from "./prune.js";
+import {
+  defaultWorktreePathTemplate,
+  resolveWorktreePath,
+} from "./paths.js";
 import { isCommandAvailable, launchCommand, openInFileManager } from "./opencode.js";
 import { WorktreeInfo } from "./types.js";
+import type { CreatedWorktree } from "./git.js";
 import { loadRepoConfig, saveRepoConfig, type Config } from "./config.js";
-import { runPostCreateHook, type HookResult } from "./hooks.js";
+import {
+  createWorktreeWithHook,
+  describeCreatedWorktree,
+  type CreateFlowResult,
+} from "./create.js";
+import {
+  describeChangeCounts,
+  formatAheadBehind,
+  formatBranchRemote,
+  formatChangeCounts,
+  formatDirtySubmodules,
+  formatOperationState,
+  formatRelativeDate,
+  formatWorktreeTemplate,
+  sumChangeCounts,
+} from "./format.js";
+import { writeResult } from "./terminal.js";
 
 type StatusLevel = "info" | "warning" | "error" | "success";
 
+// The result of an action, handed to the reload that follows it
+type StatusUpdate = { message: string; level: StatusLevel };
+
 const statusColors: Record<StatusLevel, string> = {
   info: "#94A3B8",
   warning: "#F59E0B",
@@ -39,24 +73,42 @@ const statusColors: Record<StatusLevel, string> = {
   success: "#10B981",
 };
 
+// Two lines so the keys fit the 76-column layout
+const MAIN_INSTRUCTIONS =
+  "↑/↓ navigate • Enter open • o folder • n new • b branch • m move • c config\n" +
+  "d delete • M clean merged • l lock • p prune • r refresh • R repair • q quit";
+
 const CREATE_NEW_WORKTREE_VALUE = Symbol("CREATE_NEW_WORKTREE");
 
 type SelectionValue = WorktreeInfo | typeof CREATE_NEW_WORKTREE_VALUE;
 
-type ConfirmAction = "unlink" | "delete" | "cancel";
+type ConfirmAction = "unlink" | "delete" | "unlink-locked" | "delete-locked" | "cancel";
 
 const CONFIRM_UNLINK_VALUE: ConfirmAction = "unlink";
 const CONFIRM_DELETE_VALUE: ConfirmAction = "delete";
+// Batch actions that also remove locked worktrees instead of skipping them
+const CONFIRM_UNLINK_LOCKED_VALUE: ConfirmAction = "unlink-locked";
+const CONFIRM_DELETE_LOCKED_VALUE: ConfirmAction = "delete-locked";
 const CONFIRM_CANCEL_VALUE: ConfirmAction = "cancel";
 
+type PruneAction = "prune" | "prune-branches" | "prune-locked" | "cancel";
+
 export type PackageInfo = {
   name: string;
   version: string;
 };
 
+export type AppOptions = {
+  printPath?: boolean; // Print the chosen worktree path to stdout instead of launching
+  pick?: boolean; // Select-only mode: print the choice and exit 1 on cancel
+  format?: string; // Template for the printed choice in pick mode (default: "{path}")
+  updateCheck?: boolean; // Defaults to true; false skips the npm version check
+};
+
 export const runApp = async (
   targetPath: string,
   pkg?: PackageInfo,
+  options: AppOptions = {},
 ): Promise<void> => {
   const renderer = await createCliRenderer({
     exitOnCtrlC: false,
@@ -64,18 +116,26 @@ export const runApp = async (
   });
 
   renderer.setBackgroundColor("transparent");
-  new WorktreeSelector(renderer, targetPath, pkg);
+  new WorktreeSelector(renderer, targetPath, pkg, options);
 };
 
 class WorktreeSelector {
   private selectElement: SelectRenderable;
   private statusText: TextRenderable;
+  private statusMessage = "";
   private instructions: TextRenderable;
   private title: TextRenderable;
   private versionNotice: TextRenderable | null = null;
 
   private inputContainer: BoxRenderable | null = null;
   private branchInput: InputRenderable | null = null;
+  private baseInput: InputRenderable | null = null;
+  private createActiveField: "branch" | "base" = "branch";
+  private createHint: TextRenderable | null = null;
+  private branchValidationGeneration = 0;
+  private remoteChoiceContainer: BoxRenderable | null = null;
+  private remoteChoiceSelect: SelectRenderable | null = null;
+  private remoteChoiceResolve: ((choice: string | null) => void) | null = null;
 
   private confirmContainer: BoxRenderable | null = null;
   private confirmSelect: SelectRenderable | null = null;
@@ -84,9 +144,13 @@ class WorktreeSelector {
 
   private opencodeAvailable = false;
   private repoRoot: string | null = null;
+  private isBareRepo = false;
   private repoConfig: Config = {};
   private isCreatingWorktree = false;
-  private worktreeOptions: SelectOption[] = [];
+  private isSubmittingCreate = false; // A create is running; ignore Enter and Tab
+  private worktrees: WorktreeInfo[] = [];
+  private enrichedPaths: Set<string> = new Set(); // Rows whose metadata has streamed in
+  private loadGeneration = 0; // Discards results from superseded loads
 
   // Multi-select delete mode
   private isSelectingForDelete = false;
@@ -108,33 +172,44 @@ class WorktreeSelector {
   private configHookInput: InputRenderable | null = null;
   private configOpenInput: InputRenderable | null = null;
   private configLaunchInput: InputRenderable | null = null;
-  private configActiveField: "hook" | "open" | "launch" = "hook";
+  private configPathInput: InputRenderable | null = null;
+  private configActiveField: "hook" | "open" | "launch" | "path" = "hook";
   private repoKey: string | null = null; // Normalized git remote URL for config lookup
 
   // Branch creation state
   private isCreatingBranch = false;
   private branchCreateContainer: BoxRenderable | null = null;
   private branchNameInput: InputRenderable | null = null;
+  private branchNameHint: TextRenderable | null = null;
   private sourceWorktree: WorktreeInfo | null = null;
   private pendingBranchName: string | null = null;
   private isAskingCheckout = false;
   private checkoutSelect: SelectRenderable | null = null;
 
+  // Prune state
+  private isConfirmingPrune = false;
+  private pruneContainer: BoxRenderable | null = null;
+  private pruneSelect: SelectRenderable | null = null;
+  private staleWorktrees: WorktreeInfo[] = [];
+
+  // Lock state
+  private isLockingWorktree = false;
+  private lockContainer: BoxRenderable | null = null;
+  private lockReasonInput: InputRenderable | null = null;
+  private lockingWorktree: WorktreeInfo | null = null;
+
+  // Move state
+  private isMovingWorktree = false;
+  private moveContainer: BoxRenderable | null = null;
+  private movePathInput: InputRenderable | null = null;
+  private movingWorktree: WorktreeInfo | null = null;
+
   constructor(
     private renderer: CliRenderer,
     private targetPath: string,
     private pkg?: PackageInfo,
+    private options: AppOptions = {},
   ) {
-    // Load worktrees first to get initial options
-    this.repoRoot = resolveRepoRoot(this.targetPath);
-    if (this.repoRoot) {
-      const { config, repoKey } = loadRepoConfig(this.repoRoot);
-      this.repoConfig = config;
-      this.repoKey = repoKey;
-    }
-    this.opencodeAvailable = isCommandAvailable(this.repoConfig.launchCommand || "opencode");
-    this.worktreeOptions = this.buildInitialOptions();
-
     this.title = new TextRenderable(renderer, {
       id: "worktree-title",
       position: "absolute",
@@ -148,7 +223,9 @@ class WorktreeSelector {
     // Display version/update notice from previous launch, then refresh cache now.
     if (this.pkg) {
       const updateInfo = getCachedUpdateNotice(this.pkg);
-      checkForUpdatesOnLaunch(this.pkg);
+      if (this.options.updateCheck !== false) {
+        checkForUpdatesOnLaunch(this.pkg);
+      }
 
       let noticeContent = `v${this.pkg.version}`;
       let noticeColor = "#64748B";
@@ -176,7 +253,7 @@ class WorktreeSelector {
       top: 3,
       width: 76,
       height: 15,
-      options: this.worktreeOptions,
+      options: [],
       backgroundColor: "#0F172A",
       focusedBackgroundColor: "#1E293B",
       selectedBackgroundColor: "#1E3A5F",
@@ -196,8 +273,8 @@ class WorktreeSelector {
       position: "absolute",
       left: 2,
       top: 19,
-      content: this.getInitialStatusMessage(),
-      fg: this.getInitialStatusColor(),
+      content: "Loading worktrees...",
+      fg: statusColors.info,
     });
     this.renderer.root.add(this.statusText);
 
@@ -206,8 +283,9 @@ class WorktreeSelector {
       position: "absolute",
       left: 2,
       top: 20,
-      content:
-        "↑/↓ navigate • Enter open • o folder • d delete • n new • b branch • c config • q quit",
+      content: this.options.pick
+        ? "↑/↓ navigate • Enter pick • q cancel"
+        : MAIN_INSTRUCTIONS,
       fg: "#64748B",
     });
     this.renderer.root.add(this.instructions);
@@ -228,36 +306,22 @@ class WorktreeSelector {
     });
 
     this.selectElement.focus();
-  }
-
-  private getInitialStatusMessage(): string {
-    if (!this.repoRoot) {
-      return "No git repository found in this directory.";
-    }
-    if (!this.opencodeAvailable) {
-      return "opencode is not available on PATH.";
-    }
-    const count = this.worktreeOptions.length - 1; // subtract create option
-    if (count === 0) {
-      return "No worktrees detected. Select 'Create new worktree' to add one.";
-    }
-    return `Found ${count} worktree${count === 1 ? "" : "s"}.`;
-  }
 
-  private getInitialStatusColor(): string {
-    if (!this.repoRoot || !this.opencodeAvailable) {
-      return statusColors.error;
-    }
-    return statusColors.info;
+    void this.initialize();
   }
 
-  private buildInitialOptions(): SelectOption[] {
-    if (!this.repoRoot) {
-      return [];
+  /**
+   * Load the repo config, then the worktree list
+   */
+  private async initialize(): Promise<void> {
+    this.repoRoot = await resolveRepoRoot(this.targetPath);
+    if (this.repoRoot) {
+      this.isBareRepo = await isBareRepository(this.repoRoot);
+      const { config, repoKey } = await loadRepoConfig(this.repoRoot);
+      this.repoConfig = config;
+      this.repoKey = repoKey;
     }
-
-    const worktrees = listWorktrees(this.repoRoot);
-    return this.buildOptions(worktrees);
+    await this.loadWorktrees();
   }
 
   private handleKeypress(key: KeyEvent): void {
@@ -266,16 +330,27 @@ class WorktreeSelector {
       if (this.isRunningHook && this.hookAbortFn) {
         this.hookAbortFn();
         this.hookAbortFn = null;
-        this.setStatus("Hook aborted by user.", "warning");
         this.hideHookOutput();
-        this.loadWorktrees(this.pendingWorktreePath || undefined);
+        void this.loadWorktrees(this.pendingWorktreePath || undefined, {
+          message: "Hook aborted by user.",
+          level: "warning",
+        });
         this.selectElement.visible = true;
         this.selectElement.focus();
-        this.instructions.content =
-          "↑/↓ navigate • Enter open • o folder • d delete • n new • b branch • c config • q quit";
+        this.instructions.content = MAIN_INSTRUCTIONS;
         return;
       }
-      this.cleanup(true);
+      this.cleanup(true, this.options.pick ? 1 : 0);
+      return;
+    }
+
+    // Pick mode only navigates, selects and cancels
+    if (this.options.pick) {
+      if (key.name === "q" || key.name === "escape") {
+        this.cleanup(true, 1);
+      } else if (key.name === "r") {
+        void this.loadWorktrees();
+      }
       return;
     }
 
@@ -301,8 +376,29 @@ class WorktreeSelector {
     }
 
     if (this.isCreatingWorktree) {
+      // Remote choice dialog: let the select handle input
+      if (this.remoteChoiceResolve) {
+        if (key.name === "escape") {
+          this.resolveRemoteChoice(null);
+        }
+        return;
+      }
       if (key.name === "escape") {
         this.hideCreateWorktreeInput();
+        return;
+      }
+      if (key.name === "tab" && !this.isSubmittingCreate) {
+        // Switch between branch name and base ref
+        if (this.createActiveField === "branch") {
+          this.createActiveField = "base";
+          this.branchInput?.blur();
+          this.baseInput?.focus();
+        } else {
+          this.createActiveField = "branch";
+          this.baseInput?.blur();
+          this.branchInput?.focus();
+        }
+        this.renderer.requestRender();
       }
       return;
     }
@@ -314,11 +410,11 @@ class WorktreeSelector {
         return;
       }
       if (key.name === "return") {
-        this.handleConfigSave();
+        void this.handleConfigSave();
         return;
       }
       if (key.name === "tab") {
-        // Cycle between fields: hook -> open -> launch -> hook
+        // Cycle between fields: hook -> open -> launch -> path -> hook
         if (this.configActiveField === "hook") {
           this.configActiveField = "open";
           this.configHookInput?.blur();
@@ -327,9 +423,13 @@ class WorktreeSelector {
           this.configActiveField = "launch";
           this.configOpenInput?.blur();
           this.configLaunchInput?.focus();
+        } else if (this.configActiveField === "launch") {
+          this.configActiveField = "path";
+          this.configLaunchInput?.blur();
+          this.configPathInput?.focus();
         } else {
           this.configActiveField = "hook";
-          this.configLaunchInput?.blur();
+          this.configPathInput?.blur();
           this.configHookInput?.focus();
         }
         this.renderer.requestRender();
@@ -378,13 +478,43 @@ class WorktreeSelector {
       return;
     }
 
+    // Handle prune confirmation mode
+    if (this.isConfirmingPrune) {
+      if (key.name === "escape") {
+        this.hidePruneDialog();
+      }
+      return;
+    }
+
+    // Handle lock reason input mode
+    if (this.isLockingWorktree) {
+      if (key.name === "escape") {
+        this.hideLockInput();
+      }
+      return;
+    }
+
+    // Handle move path input mode
+    if (this.isMovingWorktree) {
+      if (key.name === "escape") {
+        this.hideMoveInput();
+      }
+      return;
+    }
+
     if (key.name === "q" || key.name === "escape") {
       this.cleanup(true);
       return;
     }
 
+    // 'R' (shift+r) for repairing worktree links, plain 'r' refreshes
+    if (key.name === "r" && key.shift) {
+      void this.handleRepair();
+      return;
+    }
+
     if (key.name === "r") {
-      this.loadWorktrees();
+      void this.loadWorktrees();
       return;
     }
 
@@ -417,6 +547,30 @@ class WorktreeSelector {
       this.showBranchCreateInput();
       return;
     }
+
+    // 'l' for locking/unlocking the selected worktree
+    if (key.name === "l") {
+      void this.toggleLock();
+      return;
+    }
+
+    // 'M' (shift+m) for cleaning up worktrees whose branch is merged
+    if (key.name === "m" && key.shift) {
+      this.selectMergedForCleanup();
+      return;
+    }
+
+    // 'm' for moving the selected worktree
+    if (key.name === "m") {
+      this.showMoveInput();
+      return;
+    }
+
+    // 'p' for pruning stale worktrees
+    if (key.name === "p") {
+      void this.showPruneDialog();
+      return;
+    }
   }
 
   private handleSelection(value: SelectionValue): void {
@@ -426,14 +580,61 @@ class WorktreeSelector {
     }
 
     const worktree = value as WorktreeInfo;
+    if (this.options.pick) {
+      this.pickWorktree(worktree);
+      return;
+    }
+
+    if (worktree.isPrunable || worktree.isMissing) {
+      this.setStatus("This worktree's directory is missing. Press p to prune it.", "warning");
+      return;
+    }
+
     const cmdName = this.repoConfig.launchCommand || "opencode";
-    if (!this.opencodeAvailable) {
+    if (this.isLauncherMissing()) {
       this.setStatus(`${cmdName} is not available on PATH.`, "error");
       return;
     }
 
+    this.openWorktree(worktree.path);
+  }
+
+  /**
+   * Hand the chosen worktree over: launch the configured command, or print
+   * its path to stdout in --print-path mode
+   */
+  private openWorktree(worktreePath: string): void {
+    this.cleanup(false);
+    if (this.options.printPath) {
+      writeResult(`${worktreePath}\n`);
+      process.exit(0);
+    }
+    launchCommand(worktreePath, this.repoConfig.launchCommand);
+  }
+
+  /**
+   * Print the picked worktree using the --format template and exit
+   */
+  private pickWorktree(worktree: WorktreeInfo): void {
     this.cleanup(false);
-    launchCommand(worktree.path, this.repoConfig.launchCommand);
+    writeResult(`${formatWorktreeTemplate(this.options.format ?? "{path}", worktree)}\n`);
+    process.exit(0);
+  }
+
+  /**
+   * The launch command only matters when we actually launch it
+   */
+  private isLauncherMissing(): boolean {
+    return !this.options.printPath && !this.options.pick && !this.opencodeAvailable;
+  }
+
+  /**
+   * The configured worktree location, or the default for this repo's layout
+   */
+  private getWorktreePathTemplate(): string {
+    return (
+      this.repoConfig.worktreePathTemplate || defaultWorktreePathTemplate(this.isBareRepo)
+    );
   }
 
   private openWorktreeInFileManager(): void {
@@ -469,7 +670,7 @@ class WorktreeSelector {
       left: 2,
       top: 3,
       width: 76,
-      height: 5,
+      height: 7,
       borderStyle: "single",
       borderColor: "#38BDF8",
       title: "Create New Worktree",
@@ -501,13 +702,75 @@ class WorktreeSelector {
     });
     this.inputContainer.add(this.branchInput);
 
-    this.branchInput.on(InputRenderableEvents.CHANGE, (value: string) => {
-      this.handleCreateWorktree(value);
+    const baseLabel = new TextRenderable(this.renderer, {
+      id: "worktree-base-label",
+      position: "absolute",
+      left: 1,
+      top: 3,
+      content: "Base ref:",
+      fg: "#E2E8F0",
+    });
+    this.inputContainer.add(baseLabel);
+
+    this.baseInput = new InputRenderable(this.renderer, {
+      id: "worktree-base-input",
+      position: "absolute",
+      left: 14,
+      top: 3,
+      width: 58,
+      placeholder: "HEAD",
+      focusedBackgroundColor: "#1E293B",
+      backgroundColor: "#1E293B",
+    });
+    this.inputContainer.add(this.baseInput);
+
+    this.createHint = new TextRenderable(this.renderer, {
+      id: "worktree-input-hint",
+      position: "absolute",
+      left: 1,
+      top: 4,
+      content: "",
+      fg: "#64748B",
     });
+    this.inputContainer.add(this.createHint);
+
+    const repoRoot = this.repoRoot;
+    this.branchInput.on(InputRenderableEvents.INPUT, (value: string) => {
+      if (!this.createHint) return;
+      this.showBranchNameHint(this.createHint, value, (name) =>
+        repoRoot
+          ? `Path: ${resolveWorktreePath(repoRoot, name, this.getWorktreePathTemplate())}`
+          : "",
+      );
+    });
+
+    // Show which ref an empty base falls back to
+    if (this.repoRoot) {
+      void getDefaultBranch(this.repoRoot).then((defaultBranch) => {
+        if (defaultBranch && this.baseInput) {
+          this.baseInput.placeholder = `${defaultBranch} (default branch)`;
+          this.renderer.requestRender();
+        }
+      });
+    }
+
+    // ENTER rather than CHANGE: CHANGE also fires when Tab blurs a field
+    const submit = (): void => {
+      this.handleCreateWorktree(
+        this.branchInput?.value || "",
+        this.baseInput?.value || "",
+      );
+    };
+    this.branchInput.on(InputRenderableEvents.ENTER, submit);
+    this.baseInput.on(InputRenderableEvents.ENTER, submit);
 
-    this.instructions.content = "Enter to create - Esc to cancel";
-    this.setStatus("Enter a branch name for the new worktree.", "info");
+    this.instructions.content = "Enter to create • Tab switch field • Esc to cancel";
+    this.setStatus(
+      "Enter a branch name; an existing branch is checked out, a new one starts from the base ref.",
+      "info",
+    );
 
+    this.createActiveField = "branch";
     this.branchInput.focus();
     this.renderer.requestRender();
   }
@@ -518,22 +781,28 @@ class WorktreeSelector {
     if (this.branchInput) {
       this.branchInput.blur();
     }
+    if (this.baseInput) {
+      this.baseInput.blur();
+    }
 
     if (this.inputContainer) {
       this.renderer.root.remove(this.inputContainer.id);
       this.inputContainer = null;
       this.branchInput = null;
+      this.baseInput = null;
+      this.createHint = null;
     }
 
     this.selectElement.visible = true;
-    this.instructions.content =
-      "↑/↓ navigate • Enter open • o folder • d delete • n new • b branch • c config • q quit";
+    this.instructions.content = MAIN_INSTRUCTIONS;
     this.selectElement.focus();
-    this.loadWorktrees(selectWorktreePath);
+    void this.loadWorktrees(selectWorktreePath);
   }
 
-  private handleCreateWorktree(branchName: string): void {
+  private handleCreateWorktree(branchName: string, baseRef: string): void {
+    if (this.isSubmittingCreate) return;
     const trimmed = branchName.trim();
+    const base = baseRef.trim();
     if (!trimmed) {
       this.setStatus("Branch name cannot be empty.", "error");
       return;
@@ -544,31 +813,167 @@ class WorktreeSelector {
       return;
     }
 
-    const worktreesDir = getDefaultWorktreesDir(this.repoRoot);
     this.setStatus(`Creating worktree for branch '${trimmed}'...`, "info");
+    // Ignore further Enter presses while git runs
+    this.isSubmittingCreate = true;
+    this.branchInput?.blur();
+    this.baseInput?.blur();
     this.renderer.requestRender();
 
-    const result = createWorktree(this.repoRoot, trimmed, worktreesDir);
+    void createWorktreeWithHook(
+      this.repoRoot,
+      this.repoConfig,
+      { branchName: trimmed, baseRef: base || undefined },
+      {
+        onChooseRemote: (candidates: string[]) => this.chooseRemote(trimmed, candidates),
+        onCreated: (created: CreatedWorktree) => {
+          this.pendingWorktreePath = created.path;
+          this.setStatus(describeCreatedWorktree(trimmed, created), "success");
+        },
+        onSubmodulesStart: (command: string, abort: () => void) => {
+          this.hookAbortFn = abort;
+          this.showHookOutput(command, "Initializing submodules...");
+        },
+        onHookStart: (command: string, abort: () => void) => {
+          this.hookAbortFn = abort;
+          this.showHookOutput(command, "Executing post-create hook...");
+        },
+        onHookOutput: (data: string) => {
+          this.hookOutput.push(data);
+          this.updateHookOutput();
+        },
+      },
+    ).then((result: CreateFlowResult) => {
+      this.isSubmittingCreate = false;
+      if (!result.success) {
+        this.setStatus(`Failed to create worktree: ${result.error}`, "error");
+        if (this.createHint) {
+          this.setHint(this.createHint, result.error, "error");
+        }
+        // Let the user fix the input and try again
+        this.createActiveField = "branch";
+        this.branchInput?.focus();
+        this.renderer.requestRender();
+        return;
+      }
+
+      if (!result.submodules && !result.hook) {
+        // No submodules or hook, launch command directly
+        this.hideCreateWorktreeInput();
+        this.openWorktree(result.path);
+        return;
+      }
 
-    if (result.success) {
-      this.setStatus(`Worktree created at ${result.path}`, "success");
-      
-      // Check for post-create hook (use already-loaded config)
-      if (this.repoConfig.postCreateHook) {
-        this.pendingWorktreePath = result.path;
-        this.runHook(result.path, this.repoConfig.postCreateHook);
+      // Aborted with Ctrl+C and the output panel is already gone
+      if (!this.isRunningHook) {
+        return;
+      }
+
+      this.hookAbortFn = null;
+      if (result.submodules && !result.submodules.success) {
+        this.onHookFailure(result.submodules.exitCode, "Submodule update");
+      } else if (result.hook && !result.hook.success) {
+        this.onHookFailure(result.hook.exitCode);
       } else {
-        // No hook, launch command directly
-        this.hideCreateWorktreeInput();
-        this.cleanup(false);
-        launchCommand(result.path, this.repoConfig.launchCommand);
+        this.onHookSuccess(result.hook ? "Hook" : "Submodule update");
       }
-    } else {
-      this.setStatus(`Failed to create worktree: ${result.error}`, "error");
+    });
+  }
+
+  /**
+   * Ask which remote-tracking branch to track when several remotes have it
+   * Resolves with the chosen ref, or null when cancelled with Esc
+   */
+  private chooseRemote(branchName: string, candidates: string[]): Promise<string | null> {
+    this.remoteChoiceContainer = new BoxRenderable(this.renderer, {
+      id: "remote-choice-container",
+      position: "absolute",
+      left: 2,
+      top: 11,
+      width: 76,
+      height: Math.min(candidates.length, 4) * 2 + 3,
+      borderStyle: "single",
+      borderColor: "#38BDF8",
+      title: `'${branchName}' exists on several remotes`,
+      titleAlignment: "center",
+      backgroundColor: "#0F172A",
+      border: true,
+    });
+    this.renderer.root.add(this.remoteChoiceContainer);
+
+    this.remoteChoiceSelect = new SelectRenderable(this.renderer, {
+      id: "remote-choice-select",
+      position: "absolute",
+      left: 1,
+      top: 1,
+      width: 72,
+      height: Math.min(candidates.length, 4) * 2,
+      options: candidates.map((ref) => ({
+        name: ref,
+        description: `Create '${branchName}' tracking ${ref}`,
+        value: ref,
+      })),
+      backgroundColor: "#0F172A",
+      focusedBackgroundColor: "#1E293B",
+      selectedBackgroundColor: "#1E3A5F",
+      textColor: "#E2E8F0",
+      selectedTextColor: "#38BDF8",
+      descriptionColor: "#94A3B8",
+      selectedDescriptionColor: "#E2E8F0",
+      showDescription: true,
+      wrapSelection: true,
+    });
+    this.remoteChoiceContainer.add(this.remoteChoiceSelect);
+
+    this.remoteChoiceSelect.on(
+      SelectRenderableEvents.ITEM_SELECTED,
+      (_index: number, option: SelectOption) => {
+        this.resolveRemoteChoice(option.value as string);
+      },
+    );
+
+    this.instructions.content = "↑/↓ select remote • Enter confirm • Esc cancel";
+    this.setStatus("Choose which remote branch to track.", "info");
+    this.remoteChoiceSelect.focus();
+    this.renderer.requestRender();
+
+    return new Promise((resolve) => {
+      this.remoteChoiceResolve = resolve;
+    });
+  }
+
+  private resolveRemoteChoice(choice: string | null): void {
+    const resolve = this.remoteChoiceResolve;
+    this.remoteChoiceResolve = null;
+
+    if (this.remoteChoiceSelect) {
+      this.remoteChoiceSelect.blur();
+      this.remoteChoiceSelect = null;
+    }
+    if (this.remoteChoiceContainer) {
+      this.renderer.root.remove(this.remoteChoiceContainer.id);
+      this.remoteChoiceContainer = null;
+    }
+    this.instructions.content = "Enter to create • Tab switch field • Esc to cancel";
+    if (choice) {
+      this.setStatus(`Tracking ${choice}...`, "info");
     }
+    this.renderer.requestRender();
+
+    resolve?.(choice);
   }
 
-  private runHook(worktreePath: string, command: string): void {
+  private showHookOutput(command: string, status: string): void {
+    this.setStatus(status, "info");
+
+    // Submodule initialization and the hook that follows share one panel
+    if (this.hookOutputContainer) {
+      this.hookOutputContainer.title = `Running: ${command}`;
+      this.hookOutput.push(`\n$ ${command}\n`);
+      this.updateHookOutput();
+      return;
+    }
+
     this.isRunningHook = true;
     this.hookFailed = false;
     this.hookOutput = [];
@@ -578,6 +983,8 @@ class WorktreeSelector {
       this.renderer.root.remove(this.inputContainer.id);
       this.inputContainer = null;
       this.branchInput = null;
+      this.baseInput = null;
+      this.createHint = null;
     }
     this.isCreatingWorktree = false;
     this.selectElement.visible = false;
@@ -610,24 +1017,7 @@ class WorktreeSelector {
     this.hookOutputContainer.add(this.hookOutputText);
 
     this.instructions.content = "Hook running... (Ctrl+C to abort)";
-    this.setStatus(`Executing post-create hook...`, "info");
     this.renderer.requestRender();
-
-    // Run the hook with streaming output
-    this.hookAbortFn = runPostCreateHook(worktreePath, command, {
-      onOutput: (data: string) => {
-        this.hookOutput.push(data);
-        this.updateHookOutput();
-      },
-      onComplete: (result: HookResult) => {
-        this.hookAbortFn = null;
-        if (result.success) {
-          this.onHookSuccess();
-        } else {
-          this.onHookFailure(result.exitCode);
-        }
-      },
-    });
   }
 
   private updateHookOutput(): void {
@@ -643,24 +1033,24 @@ class WorktreeSelector {
     this.renderer.requestRender();
   }
 
-  private onHookSuccess(): void {
-    this.setStatus("Hook completed successfully!", "success");
+  private onHookSuccess(step = "Hook"): void {
+    this.setStatus(`${step} completed successfully!`, "success");
     this.renderer.requestRender();
 
     // Brief delay to show success, then launch command
     setTimeout(() => {
+      const worktreePath = this.pendingWorktreePath;
       this.hideHookOutput();
-      if (this.pendingWorktreePath) {
-        this.cleanup(false);
-        launchCommand(this.pendingWorktreePath, this.repoConfig.launchCommand);
+      if (worktreePath) {
+        this.openWorktree(worktreePath);
       }
     }, 1000);
   }
 
-  private onHookFailure(exitCode: number | null): void {
+  private onHookFailure(exitCode: number | null, step = "Hook"): void {
     this.hookFailed = true;
     const exitMsg = exitCode !== null ? ` (exit code: ${exitCode})` : "";
-    this.setStatus(`Hook failed${exitMsg}`, "error");
+    this.setStatus(`${step} failed${exitMsg}`, "error");
 
     // Add failure options to the container
     if (this.hookOutputContainer) {
@@ -674,7 +1064,7 @@ class WorktreeSelector {
         options: [
           {
             name: "Open in opencode anyway",
-            description: "Launch opencode despite hook failure",
+            description: `Launch opencode despite the ${step.toLowerCase()} failure`,
             value: "open",
           },
           {
@@ -711,17 +1101,16 @@ class WorktreeSelector {
 
   private handleHookFailureChoice(choice: string): void {
     if (choice === "open" && this.pendingWorktreePath) {
+      const worktreePath = this.pendingWorktreePath;
       this.hideHookOutput();
-      this.cleanup(false);
-      launchCommand(this.pendingWorktreePath, this.repoConfig.launchCommand);
+      this.openWorktree(worktreePath);
     } else {
       // Cancel - return to list
       this.hideHookOutput();
-      this.loadWorktrees(this.pendingWorktreePath || undefined);
+      void this.loadWorktrees(this.pendingWorktreePath || undefined);
       this.selectElement.visible = true;
       this.selectElement.focus();
-      this.instructions.content =
-        "↑/↓ navigate • Enter open • o folder • d delete • n new • b branch • c config • q quit";
+      this.instructions.content = MAIN_INSTRUCTIONS;
     }
   }
 
@@ -857,6 +1246,30 @@ class WorktreeSelector {
     });
     this.configContainer.add(this.configLaunchInput);
 
+    // Worktree location field
+    const pathLabel = new TextRenderable(this.renderer, {
+      id: "config-path-label",
+      position: "absolute",
+      left: 1,
+      top: 10,
+      content: "Worktree path ({repoRoot}, {repoName}, {repoParent}, {branchSlug}, ~):",
+      fg: "#94A3B8",
+    });
+    this.configContainer.add(pathLabel);
+
+    this.configPathInput = new InputRenderable(this.renderer, {
+      id: "config-path-input",
+      position: "absolute",
+      left: 1,
+      top: 11,
+      width: 72,
+      placeholder: `${defaultWorktreePathTemplate(this.isBareRepo)} (default)`,
+      value: this.repoConfig.worktreePathTemplate || "",
+      focusedBackgroundColor: "#1E293B",
+      backgroundColor: "#1E293B",
+    });
+    this.configContainer.add(this.configPathInput);
+
     // Help text - show warning if no remote
     let helpContent: string;
     if (this.repoKey) {
@@ -869,7 +1282,7 @@ class WorktreeSelector {
       id: "config-help",
       position: "absolute",
       left: 1,
-      top: 10,
+      top: 12,
       content: helpContent,
       fg: this.repoKey ? "#64748B" : "#F59E0B",
     });
@@ -903,6 +1316,9 @@ class WorktreeSelector {
     if (this.configLaunchInput) {
       this.configLaunchInput.blur();
     }
+    if (this.configPathInput) {
+      this.configPathInput.blur();
+    }
 
     if (this.configContainer) {
       this.renderer.root.remove(this.configContainer.id);
@@ -910,11 +1326,11 @@ class WorktreeSelector {
       this.configHookInput = null;
       this.configOpenInput = null;
       this.configLaunchInput = null;
+      this.configPathInput = null;
     }
 
     this.selectElement.visible = true;
-    this.instructions.content =
-      "↑/↓ navigate • Enter open • o folder • d delete • n new • b branch • c config • q quit";
+    this.instructions.content = MAIN_INSTRUCTIONS;
     
     // Delay focus to prevent the Enter keypress from triggering a selection
     setTimeout(() => {
@@ -923,7 +1339,7 @@ class WorktreeSelector {
     }, 0);
   }
 
-  private handleConfigSave(): void {
+  private async handleConfigSave(): Promise<void> {
     if (!this.repoRoot) {
       this.setStatus("No git repository found.", "error");
       this.hideConfigEditor();
@@ -933,7 +1349,9 @@ class WorktreeSelector {
     const hookValue = (this.configHookInput?.value || "").trim();
     const openValue = (this.configOpenInput?.value || "").trim();
     const launchValue = (this.configLaunchInput?.value || "").trim();
-    const config: Config = {};
+    const pathValue = (this.configPathInput?.value || "").trim();
+    // Settings without a field in the editor are kept as they are
+    const config: Config = { initSubmodules: this.repoConfig.initSubmodules };
 
     if (hookValue) {
       config.postCreateHook = hookValue;
@@ -944,8 +1362,11 @@ class WorktreeSelector {
     if (launchValue) {
       config.launchCommand = launchValue;
     }
+    if (pathValue) {
+      config.worktreePathTemplate = pathValue;
+    }
 
-    const success = saveRepoConfig(this.repoRoot, config);
+    const success = await saveRepoConfig(this.repoRoot, config);
 
     if (success) {
       // Update the in-memory config
@@ -959,6 +1380,7 @@ class WorktreeSelector {
       if (hookValue) changes.push(`hook: "${hookValue}"`);
       if (openValue) changes.push(`open: "${openValue}"`);
       if (launchValue) changes.push(`launch: "${launchValue}"`);
+      if (pathValue) changes.push(`path: "${pathValue}"`);
       
       if (changes.length > 0) {
         this.setStatus(`Config saved: ${changes.join(", ")}`, "success");
@@ -1041,8 +1463,23 @@ class WorktreeSelector {
     });
     this.branchCreateContainer.add(helpText);
 
+    this.branchNameHint = new TextRenderable(this.renderer, {
+      id: "branch-name-hint",
+      position: "absolute",
+      left: 1,
+      top: 4,
+      content: "",
+      fg: "#64748B",
+    });
+    this.branchCreateContainer.add(this.branchNameHint);
+
+    this.branchNameInput.on(InputRenderableEvents.INPUT, (value: string) => {
+      if (!this.branchNameHint) return;
+      this.showBranchNameHint(this.branchNameHint, value, () => "");
+    });
+
     this.branchNameInput.on(InputRenderableEvents.CHANGE, (value: string) => {
-      this.handleBranchCreate(value);
+      void this.handleBranchCreate(value);
     });
 
     this.instructions.content = "Enter to create • Esc to cancel";
@@ -1064,16 +1501,16 @@ class WorktreeSelector {
       this.renderer.root.remove(this.branchCreateContainer.id);
       this.branchCreateContainer = null;
       this.branchNameInput = null;
+      this.branchNameHint = null;
     }
 
     this.selectElement.visible = true;
-    this.instructions.content =
-      "↑/↓ navigate • Enter open • o folder • d delete • n new • b branch • c config • q quit";
+    this.instructions.content = MAIN_INSTRUCTIONS;
     this.selectElement.focus();
     this.renderer.requestRender();
   }
 
-  private handleBranchCreate(branchName: string): void {
+  private async handleBranchCreate(branchName: string): Promise<void> {
     const trimmed = branchName.trim();
     if (!trimmed) {
       this.setStatus("Branch name cannot be empty.", "error");
@@ -1091,10 +1528,19 @@ class WorktreeSelector {
       return;
     }
 
+    const validation = await validateBranchName(this.repoRoot, trimmed);
+    if (!validation.success) {
+      this.setStatus(validation.error, "error");
+      if (this.branchNameHint) {
+        this.setHint(this.branchNameHint, validation.error, "error");
+      }
+      return;
+    }
+
     this.setStatus(`Creating branch '${trimmed}'...`, "info");
     this.renderer.requestRender();
 
-    const result = createBranchFromCommit(this.repoRoot, trimmed, commitHash);
+    const result = await createBranchFromCommit(this.repoRoot, trimmed, commitHash);
 
     if (result.success) {
       this.pendingBranchName = trimmed;
@@ -1106,6 +1552,7 @@ class WorktreeSelector {
         this.renderer.root.remove(this.branchCreateContainer.id);
         this.branchCreateContainer = null;
         this.branchNameInput = null;
+        this.branchNameHint = null;
       }
       this.isCreatingBranch = false;
       
@@ -1186,7 +1633,7 @@ class WorktreeSelector {
     this.checkoutSelect.on(
       SelectRenderableEvents.ITEM_SELECTED,
       (_index: number, option: SelectOption) => {
-        this.handleCheckoutChoice(option.value as string);
+        void this.handleCheckoutChoice(option.value as string);
       }
     );
 
@@ -1197,7 +1644,7 @@ class WorktreeSelector {
     this.renderer.requestRender();
   }
 
-  private hideCheckoutConfirm(): void {
+  private hideCheckoutConfirm(actionStatus?: StatusUpdate): void {
     this.isAskingCheckout = false;
     this.pendingBranchName = null;
     this.sourceWorktree = null;
@@ -1213,49 +1660,67 @@ class WorktreeSelector {
     }
 
     this.selectElement.visible = true;
-    this.instructions.content =
-      "↑/↓ navigate • Enter open • o folder • d delete • n new • b branch • c config • q quit";
+    this.instructions.content = MAIN_INSTRUCTIONS;
     this.selectElement.focus();
-    this.loadWorktrees();
+    void this.loadWorktrees(undefined, actionStatus);
     this.renderer.requestRender();
   }
 
-  private handleCheckoutChoice(choice: string): void {
+  private async handleCheckoutChoice(choice: string): Promise<void> {
     if (choice === "checkout" && this.pendingBranchName && this.sourceWorktree) {
       this.setStatus(`Checking out '${this.pendingBranchName}'...`, "info");
       this.renderer.requestRender();
 
-      const result = checkoutBranch(this.sourceWorktree.path, this.pendingBranchName);
+      const result = await checkoutBranch(this.sourceWorktree.path, this.pendingBranchName);
 
       if (result.success) {
-        this.setStatus(
-          `Switched to branch '${this.pendingBranchName}'.`,
-          "success"
-        );
+        this.hideCheckoutConfirm({
+          message: `Switched to branch '${this.pendingBranchName}'.`,
+          level: "success",
+        });
       } else {
-        this.setStatus(`Failed to checkout: ${result.error}`, "error");
+        this.hideCheckoutConfirm({ message: `Failed to checkout: ${result.error}`, level: "error" });
       }
     } else {
-      this.setStatus(
-        `Branch '${this.pendingBranchName}' created (not checked out).`,
-        "success"
-      );
+      this.hideCheckoutConfirm({
+        message: `Branch '${this.pendingBranchName}' created (not checked out).`,
+        level: "success",
+      });
     }
-
-    this.hideCheckoutConfirm();
   }
 
-  private loadWorktrees(selectWorktreePath?: string): void {
-    this.repoRoot = resolveRepoRoot(this.targetPath);
+  /**
+   * Show the worktree list as soon as `git worktree list` returns, then fill
+   * in dirty/remote/date metadata row by row as it resolves
+   */
+  private async loadWorktrees(
+    selectWorktreePath?: string,
+    actionStatus?: StatusUpdate,
+  ): Promise<void> {
+    const generation = ++this.loadGeneration;
+    const isStale = (): boolean => generation !== this.loadGeneration;
+    // The result of the action that triggered this reload (e.g. a delete)
+    // stays on screen instead of being replaced by the worktree count
+    if (actionStatus) {
+      this.setStatus(actionStatus.message, actionStatus.level);
+    }
+
+    this.repoRoot = await resolveRepoRoot(this.targetPath);
+    if (isStale()) return;
     if (!this.repoRoot) {
       this.setStatus("No git repository found in this directory.", "error");
+      this.worktrees = [];
       this.selectElement.options = [];
       this.renderer.requestRender();
       return;
     }
+    const repoRoot = this.repoRoot;
 
-    const worktrees = listWorktrees(this.repoRoot);
-    this.selectElement.options = this.buildOptions(worktrees);
+    const worktrees = await listWorktrees(repoRoot, { enrich: false });
+    if (isStale()) return;
+    this.worktrees = worktrees;
+    this.enrichedPaths = new Set();
+    this.renderWorktreeOptions();
 
     // Preselect a specific worktree if path is provided
     if (selectWorktreePath) {
@@ -1268,9 +1733,13 @@ class WorktreeSelector {
       }
     }
 
-    if (worktrees.length === 0) {
+    if (actionStatus) {
+      // Keep it
+    } else if (worktrees.length === 0) {
       this.setStatus(
-        "No worktrees detected. Select 'Create new worktree' to add one.",
+        this.options.pick
+          ? "No worktrees detected."
+          : "No worktrees detected. Select 'Create new worktree' to add one.",
         "info",
       );
     } else {
@@ -1282,17 +1751,68 @@ class WorktreeSelector {
 
     const cmdName = this.repoConfig.launchCommand || "opencode";
     this.opencodeAvailable = isCommandAvailable(cmdName);
-    if (!this.opencodeAvailable) {
+    if (this.isLauncherMissing() && !actionStatus) {
       this.setStatus(`${cmdName} is not available on PATH.`, "error");
     }
 
+    const listStatus = this.statusMessage;
+    this.renderer.requestRender();
+
+    await enrichWorktrees(repoRoot, worktrees, (enriched, index) => {
+      if (isStale()) return;
+      this.worktrees[index] = enriched;
+      this.enrichedPaths.add(enriched.path);
+      this.renderWorktreeOptions();
+    });
+    if (isStale()) return;
+
+    // Suggest cleaning up finished feature worktrees, unless something else
+    // was reported while the metadata loaded
+    const mergedCount = this.getMergedWorktrees().length;
+    if (
+      mergedCount === 0 ||
+      this.options.pick ||
+      this.isLauncherMissing() ||
+      this.statusMessage !== listStatus
+    ) {
+      return;
+    }
+    if (actionStatus) {
+      this.setStatus(
+        `${actionStatus.message} ${mergedCount} merged worktree${mergedCount === 1 ? "" : "s"}: press M to clean up.`,
+        actionStatus.level,
+      );
+    } else {
+      this.setStatus(
+        `Found ${worktrees.length} worktrees, ${mergedCount} merged. Press M to clean up merged worktrees.`,
+        "info",
+      );
+    }
     this.renderer.requestRender();
   }
 
-  private buildOptions(worktrees: WorktreeInfo[]): SelectOption[] {
-    const createOption: SelectOption = {
-      name: "+ Create new worktree",
-      description: "Create a new worktree from a branch",
+  /**
+   * Rebuild the list from the current worktrees, keeping the selection
+   * In delete selection mode the main worktree is left out
+   */
+  private renderWorktreeOptions(): void {
+    const worktrees = this.isSelectingForDelete
+      ? this.getDeletableWorktrees()
+      : this.worktrees;
+    this.selectElement.options = this.buildOptions(worktrees);
+    this.renderer.requestRender();
+  }
+
+  private getDeletableWorktrees(): WorktreeInfo[] {
+    return this.worktrees.filter(
+      (wt) => !this.repoRoot || !isMainWorktree(this.repoRoot, wt.path),
+    );
+  }
+
+  private buildOptions(worktrees: WorktreeInfo[]): SelectOption[] {
+    const createOption: SelectOption = {
+      name: "+ Create new worktree",
+      description: "Create a new worktree from a branch",
       value: CREATE_NEW_WORKTREE_VALUE,
     };
 
@@ -1307,17 +1827,46 @@ class WorktreeSelector {
           ? `${baseName} (detached)`
           : baseName;
 
-      // Add status indicators
+      // Add status indicators; metadata ones only once it has loaded
+      const isLoaded = this.enrichedPaths.has(worktree.path);
       const indicators: string[] = [];
       if (isMain) {
         indicators.push("main");
       }
-      if (worktree.isDirty) {
+      if (worktree.isLocked) {
+        indicators.push("locked");
+      }
+      if (worktree.isPrunable) {
+        indicators.push("prunable");
+      } else if (isLoaded && worktree.isMissing) {
+        indicators.push("missing");
+      }
+      if (isLoaded && worktree.isDirty) {
         indicators.push("*");
       }
-      if (!worktree.isOnRemote && worktree.branch && !isMain) {
+      const dirtySubmodules = formatDirtySubmodules(worktree.changes);
+      if (isLoaded && dirtySubmodules) {
+        indicators.push(dirtySubmodules);
+      }
+      if (
+        isLoaded &&
+        !worktree.isMissing &&
+        !worktree.isOnRemote &&
+        worktree.branch &&
+        !isMain
+      ) {
         indicators.push("local");
       }
+      if (isLoaded && worktree.isMerged) {
+        indicators.push("merged");
+      }
+      if (isLoaded) {
+        indicators.push(...formatOperationState(worktree));
+      }
+      const aheadBehind = formatAheadBehind(worktree.ahead, worktree.behind);
+      if (isLoaded && aheadBehind) {
+        indicators.push(aheadBehind);
+      }
       
       if (indicators.length > 0) {
         label = `${label} [${indicators.join(" ")}]`;
@@ -1338,8 +1887,26 @@ class WorktreeSelector {
       const descParts: string[] = [];
       
       // Last modified date
-      if (worktree.lastModified) {
-        descParts.push(this.formatRelativeDate(worktree.lastModified));
+      if (worktree.isPrunable) {
+        descParts.push(`stale: ${worktree.prunableReason || "directory missing"}`);
+      } else if (!isLoaded) {
+        descParts.push("loading...");
+      } else if (worktree.isMissing) {
+        // Locked, so git keeps it; pruning offers to unlock it
+        descParts.push("stale: directory missing (locked)");
+      } else if (worktree.lastModified) {
+        descParts.push(formatRelativeDate(worktree.lastModified));
+      }
+
+      // Remote the branch lives on, e.g. "upstream" or "origin (gone)"
+      if (isLoaded && worktree.remote) {
+        descParts.push(formatBranchRemote(worktree));
+      }
+
+      // Staged, unstaged, untracked, conflicted and stashed, e.g. "+2 ~5 ?3 !1"
+      const changeCounts = formatChangeCounts(worktree.changes);
+      if (isLoaded && changeCounts) {
+        descParts.push(changeCounts);
       }
       
       // Path (shortened if too long)
@@ -1349,6 +1916,10 @@ class WorktreeSelector {
         : worktree.path;
       descParts.push(pathDisplay);
 
+      if (worktree.isLocked) {
+        descParts.push(worktree.lockReason ? `locked: ${worktree.lockReason}` : "locked");
+      }
+
       return {
         name: displayName,
         description: descParts.join(" | "),
@@ -1356,33 +1927,580 @@ class WorktreeSelector {
       };
     });
 
-    // Don't show create option in delete selection mode
-    if (this.isSelectingForDelete) {
+    // Don't show create option in delete selection or pick mode
+    if (this.isSelectingForDelete || this.options.pick) {
       return worktreeOptions;
     }
 
     return [createOption, ...worktreeOptions];
   }
 
-  private formatRelativeDate(date: Date): string {
-    const now = new Date();
-    const diffMs = now.getTime() - date.getTime();
-    const diffMins = Math.floor(diffMs / (1000 * 60));
-    const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
-    const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
-
-    if (diffMins < 1) return "just now";
-    if (diffMins < 60) return `${diffMins}m ago`;
-    if (diffHours < 24) return `${diffHours}h ago`;
-    if (diffDays < 7) return `${diffDays}d ago`;
-    if (diffDays < 30) return `${Math.floor(diffDays / 7)}w ago`;
-    if (diffDays < 365) return `${Math.floor(diffDays / 30)}mo ago`;
-    return `${Math.floor(diffDays / 365)}y ago`;
+  // ========== Lock Methods ==========
+
+  /**
+   * Unlock the selected worktree, or ask for a reason and lock it
+   */
+  private async toggleLock(): Promise<void> {
+    const worktree = this.getSelectedWorktree();
+    if (!worktree) {
+      this.setStatus("Select a worktree to lock or unlock.", "warning");
+      return;
+    }
+
+    if (!this.repoRoot) {
+      this.setStatus("No git repository found.", "error");
+      return;
+    }
+
+    if (isMainWorktree(this.repoRoot, worktree.path)) {
+      this.setStatus("The main worktree cannot be locked.", "warning");
+      return;
+    }
+
+    if (!worktree.isLocked) {
+      this.showLockInput(worktree);
+      return;
+    }
+
+    const name = worktree.branch || basename(worktree.path);
+    const result = await unlockWorktree(this.repoRoot, worktree.path);
+    await this.loadWorktrees(
+      worktree.path,
+      result.success
+        ? { message: `Worktree '${name}' unlocked.`, level: "success" }
+        : { message: `Failed to unlock: ${result.error}`, level: "error" },
+    );
+  }
+
+  private showLockInput(worktree: WorktreeInfo): void {
+    this.isLockingWorktree = true;
+    this.lockingWorktree = worktree;
+    this.selectElement.visible = false;
+    this.selectElement.blur();
+
+    const name = worktree.branch || basename(worktree.path);
+
+    this.lockContainer = new BoxRenderable(this.renderer, {
+      id: "lock-container",
+      position: "absolute",
+      left: 2,
+      top: 3,
+      width: 76,
+      height: 7,
+      borderStyle: "single",
+      borderColor: "#38BDF8",
+      title: `Lock: ${name}`,
+      titleAlignment: "center",
+      backgroundColor: "#0F172A",
+      border: true,
+    });
+    this.renderer.root.add(this.lockContainer);
+
+    const inputLabel = new TextRenderable(this.renderer, {
+      id: "lock-reason-label",
+      position: "absolute",
+      left: 1,
+      top: 1,
+      content: "Reason:",
+      fg: "#E2E8F0",
+    });
+    this.lockContainer.add(inputLabel);
+
+    this.lockReasonInput = new InputRenderable(this.renderer, {
+      id: "lock-reason-input",
+      position: "absolute",
+      left: 14,
+      top: 1,
+      width: 58,
+      placeholder: "on external drive (optional)",
+      focusedBackgroundColor: "#1E293B",
+      backgroundColor: "#1E293B",
+    });
+    this.lockContainer.add(this.lockReasonInput);
+
+    const helpText = new TextRenderable(this.renderer, {
+      id: "lock-help",
+      position: "absolute",
+      left: 1,
+      top: 3,
+      content: "Locked worktrees are skipped by delete and prune unless you override.",
+      fg: "#64748B",
+    });
+    this.lockContainer.add(helpText);
+
+    this.lockReasonInput.on(InputRenderableEvents.ENTER, () => {
+      void this.handleLock(this.lockReasonInput?.value || "");
+    });
+
+    this.instructions.content = "Enter to lock • Esc to cancel";
+    this.setStatus("Enter why this worktree is locked.", "info");
+
+    // Delay focus to prevent the triggering keypress from being captured
+    setTimeout(() => {
+      this.lockReasonInput?.focus();
+      this.renderer.requestRender();
+    }, 0);
+  }
+
+  private hideLockInput(): void {
+    this.isLockingWorktree = false;
+    this.lockingWorktree = null;
+
+    if (this.lockReasonInput) {
+      this.lockReasonInput.blur();
+    }
+
+    if (this.lockContainer) {
+      this.renderer.root.remove(this.lockContainer.id);
+      this.lockContainer = null;
+      this.lockReasonInput = null;
+    }
+
+    this.selectElement.visible = true;
+    this.instructions.content = MAIN_INSTRUCTIONS;
+    this.selectElement.focus();
+    this.renderer.requestRender();
+  }
+
+  private async handleLock(reason: string): Promise<void> {
+    const worktree = this.lockingWorktree;
+    if (!worktree || !this.repoRoot) {
+      this.hideLockInput();
+      return;
+    }
+
+    // Ignore further Enter presses while git runs
+    this.lockReasonInput?.blur();
+    const trimmed = reason.trim();
+    const result = await lockWorktree(this.repoRoot, worktree.path, trimmed || undefined);
+
+    this.hideLockInput();
+    const name = worktree.branch || basename(worktree.path);
+    await this.loadWorktrees(
+      worktree.path,
+      result.success
+        ? { message: `Worktree '${name}' locked${trimmed ? `: ${trimmed}` : "."}`, level: "success" }
+        : { message: `Failed to lock: ${result.error}`, level: "error" },
+    );
+  }
+
+  // ========== Move Methods ==========
+
+  /**
+   * Ask for a new location for the selected worktree
+   * The input starts at the configured worktree location for its branch
+   */
+  private showMoveInput(): void {
+    const worktree = this.getSelectedWorktree();
+    if (!worktree) {
+      this.setStatus("Select a worktree to move.", "warning");
+      return;
+    }
+
+    if (!this.repoRoot) {
+      this.setStatus("No git repository found.", "error");
+      return;
+    }
+
+    if (isMainWorktree(this.repoRoot, worktree.path)) {
+      this.setStatus("The main worktree cannot be moved.", "warning");
+      return;
+    }
+
+    if (worktree.isPrunable || worktree.isMissing) {
+      this.setStatus(
+        "This worktree's directory is missing. If it was moved by hand, run 'opencode-worktree repair <new-path>'.",
+        "warning",
+      );
+      return;
+    }
+
+    if (worktree.isLocked) {
+      this.setStatus("This worktree is locked. Press l to unlock it before moving.", "warning");
+      return;
+    }
+
+    this.isMovingWorktree = true;
+    this.movingWorktree = worktree;
+    this.selectElement.visible = false;
+    this.selectElement.blur();
+
+    const name = worktree.branch || basename(worktree.path);
+    const suggestedPath = worktree.branch
+      ? resolveWorktreePath(this.repoRoot, worktree.branch, this.getWorktreePathTemplate())
+      : worktree.path;
+
+    this.moveContainer = new BoxRenderable(this.renderer, {
+      id: "move-container",
+      position: "absolute",
+      left: 2,
+      top: 3,
+      width: 76,
+      height: 7,
+      borderStyle: "single",
+      borderColor: "#38BDF8",
+      title: `Move: ${name}`,
+      titleAlignment: "center",
+      backgroundColor: "#0F172A",
+      border: true,
+    });
+    this.renderer.root.add(this.moveContainer);
+
+    const inputLabel = new TextRenderable(this.renderer, {
+      id: "move-path-label",
+      position: "absolute",
+      left: 1,
+      top: 1,
+      content: "New path:",
+      fg: "#E2E8F0",
+    });
+    this.moveContainer.add(inputLabel);
+
+    this.movePathInput = new InputRenderable(this.renderer, {
+      id: "move-path-input",
+      position: "absolute",
+      left: 14,
+      top: 1,
+      width: 58,
+      value: suggestedPath,
+      focusedBackgroundColor: "#1E293B",
+      backgroundColor: "#1E293B",
+    });
+    this.moveContainer.add(this.movePathInput);
+
+    const helpText = new TextRenderable(this.renderer, {
+      id: "move-help",
+      position: "absolute",
+      left: 1,
+      top: 3,
+      content: `Now at ${worktree.path}`,
+      fg: "#64748B",
+    });
+    this.moveContainer.add(helpText);
+
+    this.movePathInput.on(InputRenderableEvents.ENTER, () => {
+      void this.handleMove(this.movePathInput?.value || "");
+    });
+
+    this.instructions.content = "Enter to move • Esc to cancel";
+    this.setStatus("Enter where to move this worktree.", "info");
+
+    // Delay focus to prevent the triggering keypress from being captured
+    setTimeout(() => {
+      this.movePathInput?.focus();
+      this.renderer.requestRender();
+    }, 0);
+  }
+
+  private hideMoveInput(): void {
+    this.isMovingWorktree = false;
+    this.movingWorktree = null;
+
+    if (this.movePathInput) {
+      this.movePathInput.blur();
+    }
+
+    if (this.moveContainer) {
+      this.renderer.root.remove(this.moveContainer.id);
+      this.moveContainer = null;
+      this.movePathInput = null;
+    }
+
+    this.selectElement.visible = true;
+    this.instructions.content = MAIN_INSTRUCTIONS;
+    this.selectElement.focus();
+    this.renderer.requestRender();
+  }
+
+  private async handleMove(value: string): Promise<void> {
+    const worktree = this.movingWorktree;
+    if (!worktree || !this.repoRoot) {
+      this.hideMoveInput();
+      return;
+    }
+
+    const trimmed = value.trim();
+    if (!trimmed) {
+      this.setStatus("Enter a path to move the worktree to.", "warning");
+      return;
+    }
+
+    const newPath = resolve(this.repoRoot, trimmed);
+    if (newPath === worktree.path) {
+      this.hideMoveInput();
+      this.setStatus(`Worktree is already at ${newPath}.`, "info");
+      return;
+    }
+
+    // Ignore further Enter presses while git runs
+    this.movePathInput?.blur();
+    this.setStatus("Moving worktree...", "info");
+    const result = await moveWorktree(this.repoRoot, worktree.path, newPath);
+
+    this.hideMoveInput();
+    const name = worktree.branch || basename(worktree.path);
+    if (result.success) {
+      await this.loadWorktrees(newPath, { message: `Moved '${name}' to ${newPath}`, level: "success" });
+    } else {
+      await this.loadWorktrees(worktree.path, {
+        message: `Failed to move: ${result.error}`,
+        level: "error",
+      });
+    }
+  }
+
+  // ========== Repair Methods ==========
+
+  /**
+   * Run `git worktree repair` and report the entries it fixed
+   */
+  private async handleRepair(): Promise<void> {
+    if (!this.repoRoot) {
+      this.setStatus("No git repository found.", "error");
+      return;
+    }
+
+    this.setStatus("Repairing worktree links...", "info");
+    const result = await repairWorktrees(this.repoRoot);
+
+    const fixed = result.repaired
+      .map((entry) => `${entry.path} (${entry.problem})`)
+      .join(", ");
+    const status: StatusUpdate = !result.success
+      ? {
+          message: `Repair failed: ${result.error}${fixed ? `; repaired ${fixed}` : ""}`,
+          level: "error",
+        }
+      : result.repaired.length === 0
+        ? { message: "Nothing to repair.", level: "info" }
+        : { message: `Repaired ${fixed}`, level: "success" };
+    await this.loadWorktrees(undefined, status);
+  }
+
+  // ========== Prune Methods ==========
+
+  private async showPruneDialog(): Promise<void> {
+    if (!this.repoRoot) {
+      this.setStatus("No git repository found.", "error");
+      return;
+    }
+
+    const stale = await findStaleWorktrees(this.repoRoot);
+    if (stale.length === 0) {
+      this.setStatus("No stale worktrees to prune.", "info");
+      return;
+    }
+
+    this.isConfirmingPrune = true;
+    this.staleWorktrees = stale;
+    this.selectElement.visible = false;
+    this.selectElement.blur();
+
+    // Preview what `git worktree prune` will remove
+    const maxShown = 4;
+    const lines = stale.slice(0, maxShown).map((wt) => {
+      const name = wt.branch || basename(wt.path);
+      return `• ${name}: ${wt.prunableReason || "directory missing"}`;
+    });
+    const lockedCount = stale.filter((wt) => wt.isLocked).length;
+    if (stale.length > maxShown) {
+      lines.push(`  ...and ${stale.length - maxShown} more`);
+    }
+
+    this.pruneContainer = new BoxRenderable(this.renderer, {
+      id: "prune-container",
+      position: "absolute",
+      left: 2,
+      top: 3,
+      width: 76,
+      height: lines.length + (lockedCount > 0 ? 12 : 10),
+      borderStyle: "single",
+      borderColor: "#F59E0B",
+      title: `Prune ${stale.length} stale worktree${stale.length === 1 ? "" : "s"}`,
+      titleAlignment: "center",
+      backgroundColor: "#0F172A",
+      border: true,
+    });
+    this.renderer.root.add(this.pruneContainer);
+
+    lines.forEach((line, index) => {
+      const text = new TextRenderable(this.renderer, {
+        id: `prune-entry-${index}`,
+        position: "absolute",
+        left: 1,
+        top: index + 1,
+        content: line,
+        fg: "#94A3B8",
+      });
+      this.pruneContainer?.add(text);
+    });
+
+    const branchCount = stale.filter((wt) => wt.branch && !wt.isLocked).length;
+    const options: SelectOption[] = [
+      {
+        name: "Prune (default)",
+        description:
+          lockedCount > 0
+            ? "Remove the stale entries that aren't locked, keep their branches"
+            : "Remove the stale worktree entries, keep their branches",
+        value: "prune",
+      },
+    ];
+    if (branchCount > 0) {
+      options.push({
+        name: "Prune and delete branches",
+        description: `Also delete ${branchCount} local branch${branchCount === 1 ? "" : "es"} left behind (never remote)`,
+        value: "prune-branches",
+      });
+    }
+    if (lockedCount > 0) {
+      options.push({
+        name: "Prune including locked",
+        description: `Unlock and prune ${lockedCount} locked worktree${lockedCount === 1 ? "" : "s"} too, keep branches`,
+        value: "prune-locked",
+      });
+    }
+    options.push({
+      name: "Cancel",
+      description: "Go back without changes",
+      value: "cancel",
+    });
+
+    this.pruneSelect = new SelectRenderable(this.renderer, {
+      id: "prune-select",
+      position: "absolute",
+      left: 1,
+      top: lines.length + 2,
+      width: 72,
+      height: lockedCount > 0 ? 8 : 6,
+      options,
+      backgroundColor: "#0F172A",
+      focusedBackgroundColor: "#1E293B",
+      selectedBackgroundColor: "#1E3A5F",
+      textColor: "#E2E8F0",
+      selectedTextColor: "#38BDF8",
+      descriptionColor: "#94A3B8",
+      selectedDescriptionColor: "#E2E8F0",
+      showDescription: true,
+      wrapSelection: true,
+    });
+    this.pruneContainer.add(this.pruneSelect);
+
+    this.pruneSelect.on(
+      SelectRenderableEvents.ITEM_SELECTED,
+      (_index: number, option: SelectOption) => {
+        void this.handlePruneAction(option.value as PruneAction);
+      },
+    );
+
+    this.instructions.content = "↑/↓ select action • Enter confirm • Esc cancel";
+    this.setStatus("These worktrees' directories are gone; prune removes their entries.", "info");
+
+    this.pruneSelect.focus();
+    this.renderer.requestRender();
+  }
+
+  private hidePruneDialog(): void {
+    this.isConfirmingPrune = false;
+    this.staleWorktrees = [];
+
+    if (this.pruneSelect) {
+      this.pruneSelect.blur();
+    }
+
+    if (this.pruneContainer) {
+      this.renderer.root.remove(this.pruneContainer.id);
+      this.pruneContainer = null;
+      this.pruneSelect = null;
+    }
+
+    this.selectElement.visible = true;
+    this.instructions.content = MAIN_INSTRUCTIONS;
+    this.selectElement.focus();
+    this.renderer.requestRender();
+  }
+
+  private async handlePruneAction(action: PruneAction): Promise<void> {
+    if (action === "cancel" || !this.repoRoot) {
+      this.hidePruneDialog();
+      return;
+    }
+
+    const stale = this.staleWorktrees;
+    // Ignore further Enter presses while git runs
+    this.pruneSelect?.blur();
+    this.setStatus("Pruning stale worktrees...", "info");
+    this.renderer.requestRender();
+
+    const result = await pruneStaleWorktrees(this.repoRoot, stale, {
+      deleteBranches: action === "prune-branches",
+      includeLocked: action === "prune-locked",
+    });
+    this.hidePruneDialog();
+
+    if (!result.success) {
+      await this.loadWorktrees(undefined, {
+        message: `Failed to prune: ${result.error}`,
+        level: "error",
+      });
+      return;
+    }
+
+    let message = `Pruned ${result.pruned} stale worktree${result.pruned === 1 ? "" : "s"}.`;
+    if (result.deletedBranches.length > 0) {
+      message += ` Deleted ${result.deletedBranches.map((branch) => `'${branch}'`).join(", ")}.`;
+    }
+    if (result.skippedLocked > 0) {
+      message += ` Skipped ${result.skippedLocked} locked.`;
+    }
+    if (result.branchFailures.length > 0) {
+      const failed = result.branchFailures.map((failure) => `'${failure.branch}'`).join(", ");
+      await this.loadWorktrees(undefined, {
+        message: `${message} Failed to delete ${failed}.`,
+        level: "warning",
+      });
+      return;
+    }
+    await this.loadWorktrees(undefined, { message, level: "success" });
+  }
+
+  private setHint(hint: TextRenderable, message: string, level: StatusLevel): void {
+    hint.content = message;
+    hint.fg = level === "info" ? "#64748B" : statusColors[level];
+    this.renderer.requestRender();
+  }
+
+  /**
+   * Validate a branch name as it's typed and show the result below the input
+   * validHint describes a valid name (e.g. the worktree path it maps to)
+   */
+  private showBranchNameHint(
+    hint: TextRenderable,
+    value: string,
+    validHint: (branchName: string) => string,
+  ): void {
+    const generation = ++this.branchValidationGeneration;
+    const branchName = value.trim();
+    if (!branchName || !this.repoRoot) {
+      this.setHint(hint, "", "info");
+      return;
+    }
+
+    void validateBranchName(this.repoRoot, branchName).then((result) => {
+      // A newer keystroke has been validated already
+      if (generation !== this.branchValidationGeneration) return;
+      if (result.success) {
+        this.setHint(hint, validHint(branchName), "info");
+      } else {
+        this.setHint(hint, result.error, "error");
+      }
+    });
   }
 
   private setStatus(message: string, level: StatusLevel): void {
     this.statusText.content = message;
     this.statusText.fg = statusColors[level];
+    this.statusMessage = message;
   }
 
   private getSelectedWorktree(): WorktreeInfo | null {
@@ -1394,7 +2512,7 @@ class WorktreeSelector {
     return option.value as WorktreeInfo;
   }
 
-  private showDeleteConfirmation(): void {
+  private async showDeleteConfirmation(): Promise<void> {
     const worktree = this.getSelectedWorktree();
     if (!worktree) {
       this.setStatus("Select a worktree to delete.", "warning");
@@ -1412,13 +2530,19 @@ class WorktreeSelector {
       return;
     }
 
+    // Check for uncommitted changes and unfinished rebases, merges etc.
+    const [status, operationState] = await Promise.all([
+      getWorkingTreeStatus(worktree.path, worktree.branch),
+      getOperationState(worktree.path),
+    ]);
+    const isDirty = status ? hasLocalChanges(status.changes) : false;
+    const inProgress = formatOperationState(operationState);
+    const isLocked = worktree.isLocked;
+
     this.isConfirming = true;
     this.confirmingWorktree = worktree;
     this.selectElement.visible = false;
     this.selectElement.blur();
-
-    // Check for uncommitted changes
-    const isDirty = hasUncommittedChanges(worktree.path);
     const branchDisplay = worktree.branch || basename(worktree.path);
 
     // Build dialog title
@@ -1430,7 +2554,7 @@ class WorktreeSelector {
       left: 2,
       top: 3,
       width: 76,
-      height: isDirty ? 10 : 8,
+      height: 8 + (isDirty ? 3 : 0) + (inProgress.length > 0 ? 2 : 0) + (isLocked ? 2 : 0),
       borderStyle: "single",
       borderColor: "#F59E0B",
       title,
@@ -1452,6 +2576,43 @@ class WorktreeSelector {
         fg: "#F59E0B",
       });
       this.confirmContainer.add(warningText);
+      const changesText = new TextRenderable(this.renderer, {
+        id: "confirm-changes",
+        position: "absolute",
+        left: 3,
+        top: yOffset + 1,
+        content: `Will discard: ${describeChangeCounts(status!.changes)}`,
+        fg: "#F59E0B",
+      });
+      this.confirmContainer.add(changesText);
+      yOffset += 3;
+    }
+
+    // Removing the worktree throws away a half-finished rebase or merge
+    if (inProgress.length > 0) {
+      const operationText = new TextRenderable(this.renderer, {
+        id: "confirm-operation",
+        position: "absolute",
+        left: 1,
+        top: yOffset,
+        content: `⚠ Unfinished operation: ${inProgress.join(", ")}. Removing it discards that work!`,
+        fg: "#F59E0B",
+      });
+      this.confirmContainer.add(operationText);
+      yOffset += 2;
+    }
+
+    // Locked worktrees are only removed by explicitly choosing to unlock them
+    if (isLocked) {
+      const lockText = new TextRenderable(this.renderer, {
+        id: "confirm-locked",
+        position: "absolute",
+        left: 1,
+        top: yOffset,
+        content: `⚠ This worktree is locked${worktree.lockReason ? `: ${worktree.lockReason}` : "."}`,
+        fg: "#F59E0B",
+      });
+      this.confirmContainer.add(lockText);
       yOffset += 2;
     }
 
@@ -1469,12 +2630,12 @@ class WorktreeSelector {
     // Build options - Unlink is default (first)
     const options: SelectOption[] = [
       {
-        name: "Unlink (default)",
+        name: isLocked ? "Unlock and unlink" : "Unlink (default)",
         description: "Remove worktree directory, keep branch for later use",
         value: CONFIRM_UNLINK_VALUE,
       },
       {
-        name: "Delete",
+        name: isLocked ? "Unlock and delete" : "Delete",
         description: "Remove worktree AND delete local branch (never remote)",
         value: CONFIRM_DELETE_VALUE,
       },
@@ -1508,7 +2669,7 @@ class WorktreeSelector {
     this.confirmSelect.on(
       SelectRenderableEvents.ITEM_SELECTED,
       (_index: number, option: SelectOption) => {
-        this.handleConfirmAction(option.value as ConfirmAction, isDirty);
+        void this.handleConfirmAction(option.value as ConfirmAction, isDirty);
       },
     );
 
@@ -1525,7 +2686,7 @@ class WorktreeSelector {
     this.renderer.requestRender();
   }
 
-  private hideConfirmDialog(): void {
+  private hideConfirmDialog(actionStatus?: StatusUpdate): void {
     this.isConfirming = false;
     this.confirmingWorktree = null;
 
@@ -1551,13 +2712,15 @@ class WorktreeSelector {
     this.selectElement.selectedDescriptionColor = "#E2E8F0";
 
     this.selectElement.visible = true;
-    this.instructions.content =
-      "↑/↓ navigate • Enter open • o folder • d delete • n new • b branch • c config • q quit";
+    this.instructions.content = MAIN_INSTRUCTIONS;
     this.selectElement.focus();
-    this.loadWorktrees();
+    void this.loadWorktrees(undefined, actionStatus);
   }
 
-  private handleConfirmAction(action: ConfirmAction, isDirty: boolean): void {
+  private async handleConfirmAction(
+    action: ConfirmAction,
+    isDirty: boolean,
+  ): Promise<void> {
     if (action === CONFIRM_CANCEL_VALUE) {
       this.hideConfirmDialog();
       return;
@@ -1570,76 +2733,107 @@ class WorktreeSelector {
 
     const worktree = this.confirmingWorktree;
     const branchName = worktree.branch || basename(worktree.path);
+    // Ignore further Enter presses while git runs
+    this.confirmSelect?.blur();
 
+    let actionStatus: StatusUpdate | undefined;
     if (action === CONFIRM_UNLINK_VALUE) {
       // Unlink: remove worktree, keep branch
       this.setStatus(`Unlinking worktree '${branchName}'...`, "info");
       this.renderer.requestRender();
 
-      const result = unlinkWorktree(this.repoRoot, worktree.path, isDirty);
+      const result = await unlinkWorktree(
+        this.repoRoot,
+        worktree.path,
+        isDirty,
+        worktree.isLocked,
+      );
       if (result.success) {
-        this.setStatus(
-          `Worktree unlinked. Branch '${branchName}' is still available.`,
-          "success",
-        );
+        actionStatus = {
+          message: `Worktree unlinked. Branch '${branchName}' is still available.`,
+          level: "success",
+        };
       } else {
-        this.setStatus(`Failed to unlink: ${result.error}`, "error");
+        actionStatus = { message: `Failed to unlink: ${result.error}`, level: "error" };
       }
     } else if (action === CONFIRM_DELETE_VALUE) {
       // Delete: remove worktree AND local branch
       if (!worktree.branch) {
-        this.setStatus("Cannot delete branch: detached HEAD.", "error");
-        this.hideConfirmDialog();
+        this.hideConfirmDialog({ message: "Cannot delete branch: detached HEAD.", level: "error" });
         return;
       }
 
       this.setStatus(`Deleting worktree and branch '${branchName}'...`, "info");
       this.renderer.requestRender();
 
-      const result = deleteWorktree(
+      const result = await deleteWorktree(
         this.repoRoot,
         worktree.path,
         worktree.branch,
         isDirty,
+        worktree.isLocked,
       );
       if (result.success) {
-        this.setStatus(
-          `Worktree and local branch '${branchName}' deleted.`,
-          "success",
-        );
+        actionStatus = {
+          message: `Worktree and local branch '${branchName}' deleted.`,
+          level: "success",
+        };
       } else {
         const stepMsg =
           result.step === "unlink"
             ? "Failed to remove worktree"
             : "Worktree removed but failed to delete branch";
-        this.setStatus(`${stepMsg}: ${result.error}`, "error");
+        actionStatus = { message: `${stepMsg}: ${result.error}`, level: "error" };
       }
     }
 
-    this.hideConfirmDialog();
+    this.hideConfirmDialog(actionStatus);
   }
 
   // ========== Multi-select delete mode methods ==========
 
-  private enterSelectMode(): void {
+  /**
+   * Worktrees whose branch is merged into the default branch and that could be
+   * removed; locked ones are left out
+   */
+  private getMergedWorktrees(): WorktreeInfo[] {
+    return this.getDeletableWorktrees().filter((wt) => wt.isMerged && !wt.isLocked);
+  }
+
+  /**
+   * Enter delete mode with the merged worktrees already selected
+   */
+  private selectMergedForCleanup(): void {
+    if (this.enrichedPaths.size < this.worktrees.length) {
+      this.setStatus("Still checking worktrees; try again in a moment.", "warning");
+      return;
+    }
+
+    const merged = this.getMergedWorktrees();
+    if (merged.length === 0) {
+      this.setStatus("No merged worktrees to clean up.", "info");
+      return;
+    }
+
+    this.enterSelectMode(merged);
+  }
+
+  private enterSelectMode(preselected: WorktreeInfo[] = []): void {
     if (!this.repoRoot) {
       this.setStatus("No git repository found.", "error");
       return;
     }
 
-    const worktrees = listWorktrees(this.repoRoot);
-    // Filter out main worktree
-    const deletableWorktrees = worktrees.filter(
-      (wt) => !isMainWorktree(this.repoRoot!, wt.path)
-    );
-
-    if (deletableWorktrees.length === 0) {
+    if (this.getDeletableWorktrees().length === 0) {
       this.setStatus("No worktrees available for deletion.", "warning");
       return;
     }
 
     this.isSelectingForDelete = true;
     this.selectedForDelete.clear();
+    for (const worktree of preselected) {
+      this.selectedForDelete.add(worktree.path);
+    }
 
     // Change title to indicate delete mode
     this.title.content = "DELETE WORKTREES";
@@ -1655,10 +2849,15 @@ class WorktreeSelector {
     this.selectElement.selectedDescriptionColor = "#E7E5E4";
 
     // Rebuild options to show checkboxes (only deletable worktrees)
-    this.selectElement.options = this.buildOptions(deletableWorktrees);
+    this.renderWorktreeOptions();
     this.instructions.content =
       "Enter toggle selection • d confirm delete • Esc cancel";
-    this.setStatus("Select worktrees to delete, then press 'd' to confirm.", "info");
+    this.setStatus(
+      preselected.length > 0
+        ? `${preselected.length} merged worktree${preselected.length === 1 ? "" : "s"} selected. Review, then press 'd' to confirm.`
+        : "Select worktrees to delete, then press 'd' to confirm.",
+      "info",
+    );
     this.renderer.requestRender();
   }
 
@@ -1679,9 +2878,8 @@ class WorktreeSelector {
     this.selectElement.descriptionColor = "#94A3B8";
     this.selectElement.selectedDescriptionColor = "#E2E8F0";
 
-    this.loadWorktrees();
-    this.instructions.content =
-      "↑/↓ navigate • Enter open • o folder • d delete • n new • b branch • c config • q quit";
+    void this.loadWorktrees();
+    this.instructions.content = MAIN_INSTRUCTIONS;
     this.renderer.requestRender();
   }
 
@@ -1706,15 +2904,7 @@ class WorktreeSelector {
     }
 
     // Rebuild options to update checkboxes (only deletable worktrees)
-    if (this.repoRoot) {
-      const worktrees = listWorktrees(this.repoRoot);
-      const deletableWorktrees = worktrees.filter(
-        (wt) => !isMainWorktree(this.repoRoot!, wt.path)
-      );
-      this.selectElement.options = this.buildOptions(deletableWorktrees);
-      // Restore selection index
-      this.selectElement.setSelectedIndex(selectedIndex);
-    }
+    this.renderWorktreeOptions();
 
     const count = this.selectedForDelete.size;
     this.setStatus(
@@ -1735,25 +2925,38 @@ class WorktreeSelector {
     // Get the worktree info for selected paths
     if (!this.repoRoot) return;
 
-    const worktrees = listWorktrees(this.repoRoot);
-    const toDelete = worktrees.filter((wt) =>
+    const toDelete = this.worktrees.filter((wt) =>
       this.selectedForDelete.has(wt.path)
     );
 
     // Show batch confirmation dialog
-    this.showBatchDeleteConfirmation(toDelete);
+    void this.showBatchDeleteConfirmation(toDelete);
   }
 
-  private showBatchDeleteConfirmation(worktrees: WorktreeInfo[]): void {
+  private async showBatchDeleteConfirmation(worktrees: WorktreeInfo[]): Promise<void> {
+    // Check if any have uncommitted changes (fresh, not the cached list metadata)
+    const statuses = await Promise.all(
+      worktrees.map((wt) => getWorkingTreeStatus(wt.path, wt.branch)),
+    );
+    const dirtyChanges = statuses.flatMap((status) =>
+      status && hasLocalChanges(status.changes) ? [status.changes] : [],
+    );
+    const dirtyWorktrees = worktrees.filter((_wt, i) => {
+      const status = statuses[i];
+      return status !== null && hasLocalChanges(status.changes);
+    });
+    const lockedCount = worktrees.filter((wt) => wt.isLocked).length;
+    const operationStates = await Promise.all(
+      worktrees.map((wt) => getOperationState(wt.path)),
+    );
+    const busyNames = worktrees
+      .filter((_wt, i) => formatOperationState(operationStates[i]).length > 0)
+      .map((wt) => wt.branch || basename(wt.path));
+
     this.isConfirming = true;
     this.isSelectingForDelete = false;
     this.selectElement.visible = false;
     this.selectElement.blur();
-
-    // Check if any have uncommitted changes
-    const dirtyWorktrees = worktrees.filter((wt) =>
-      hasUncommittedChanges(wt.path)
-    );
     const hasDirty = dirtyWorktrees.length > 0;
 
     const count = worktrees.length;
@@ -1765,7 +2968,8 @@ class WorktreeSelector {
       left: 2,
       top: 3,
       width: 76,
-      height: hasDirty ? 12 : 10,
+      height:
+        10 + (hasDirty ? 3 : 0) + (busyNames.length > 0 ? 2 : 0) + (lockedCount > 0 ? 4 : 0),
       borderStyle: "single",
       borderColor: "#F59E0B",
       title,
@@ -1788,6 +2992,41 @@ class WorktreeSelector {
         fg: "#F59E0B",
       });
       this.confirmContainer.add(warningText);
+      const changesText = new TextRenderable(this.renderer, {
+        id: "confirm-changes",
+        position: "absolute",
+        left: 3,
+        top: yOffset + 1,
+        content: `Will discard: ${describeChangeCounts(sumChangeCounts(dirtyChanges))}`,
+        fg: "#F59E0B",
+      });
+      this.confirmContainer.add(changesText);
+      yOffset += 3;
+    }
+
+    if (busyNames.length > 0) {
+      const operationText = new TextRenderable(this.renderer, {
+        id: "confirm-operation",
+        position: "absolute",
+        left: 1,
+        top: yOffset,
+        content: `⚠ Unfinished rebase/merge/etc. in: ${busyNames.slice(0, 3).join(", ")}${busyNames.length > 3 ? `, +${busyNames.length - 3} more` : ""}`,
+        fg: "#F59E0B",
+      });
+      this.confirmContainer.add(operationText);
+      yOffset += 2;
+    }
+
+    if (lockedCount > 0) {
+      const lockText = new TextRenderable(this.renderer, {
+        id: "confirm-locked",
+        position: "absolute",
+        left: 1,
+        top: yOffset,
+        content: `⚠ ${lockedCount} locked worktree${lockedCount === 1 ? " is" : "s are"} skipped unless you include locked ones.`,
+        fg: "#F59E0B",
+      });
+      this.confirmContainer.add(lockText);
       yOffset += 2;
     }
 
@@ -1821,12 +3060,26 @@ class WorktreeSelector {
         description: "Remove worktrees AND delete local branches (never remote)",
         value: CONFIRM_DELETE_VALUE,
       },
-      {
-        name: "Cancel",
-        description: "Go back without changes",
-        value: CONFIRM_CANCEL_VALUE,
-      },
     ];
+    if (lockedCount > 0) {
+      options.push(
+        {
+          name: "Unlink all, including locked",
+          description: "Unlock and remove locked worktrees too, keep branches",
+          value: CONFIRM_UNLINK_LOCKED_VALUE,
+        },
+        {
+          name: "Delete all, including locked",
+          description: "Unlock and remove locked worktrees too, delete local branches",
+          value: CONFIRM_DELETE_LOCKED_VALUE,
+        },
+      );
+    }
+    options.push({
+      name: "Cancel",
+      description: "Go back without changes",
+      value: CONFIRM_CANCEL_VALUE,
+    });
 
     this.confirmSelect = new SelectRenderable(this.renderer, {
       id: "confirm-select",
@@ -1834,7 +3087,7 @@ class WorktreeSelector {
       left: 1,
       top: yOffset,
       width: 72,
-      height: 4,
+      height: lockedCount > 0 ? 8 : 4,
       options,
       backgroundColor: "#0F172A",
       focusedBackgroundColor: "#1E293B",
@@ -1854,7 +3107,7 @@ class WorktreeSelector {
     this.confirmSelect.on(
       SelectRenderableEvents.ITEM_SELECTED,
       (_index: number, option: SelectOption) => {
-        this.handleBatchConfirmAction(
+        void this.handleBatchConfirmAction(
           option.value as ConfirmAction,
           worktreesToDelete,
           hasDirty
@@ -1875,11 +3128,11 @@ class WorktreeSelector {
     this.renderer.requestRender();
   }
 
-  private handleBatchConfirmAction(
+  private async handleBatchConfirmAction(
     action: ConfirmAction,
     worktrees: WorktreeInfo[],
     hasDirty: boolean
-  ): void {
+  ): Promise<void> {
     if (action === CONFIRM_CANCEL_VALUE) {
       this.selectedForDelete.clear();
       this.hideConfirmDialog();
@@ -1892,36 +3145,61 @@ class WorktreeSelector {
       return;
     }
 
-    const count = worktrees.length;
+    const includeLocked =
+      action === CONFIRM_UNLINK_LOCKED_VALUE || action === CONFIRM_DELETE_LOCKED_VALUE;
+    const removeAction = includeLocked
+      ? action === CONFIRM_UNLINK_LOCKED_VALUE
+        ? CONFIRM_UNLINK_VALUE
+        : CONFIRM_DELETE_VALUE
+      : action;
+
     let successCount = 0;
     let failCount = 0;
+    let skippedCount = 0;
+    // Ignore further Enter presses while git runs
+    this.confirmSelect?.blur();
 
     for (const worktree of worktrees) {
-      const branchName = worktree.branch || basename(worktree.path);
-      const isDirty = hasUncommittedChanges(worktree.path);
-
-      if (action === CONFIRM_UNLINK_VALUE) {
-        const result = unlinkWorktree(this.repoRoot, worktree.path, isDirty);
+      if (worktree.isLocked && !includeLocked) {
+        skippedCount++;
+        continue;
+      }
+      const forceLocked = worktree.isLocked;
+      const isDirty = await hasUncommittedChanges(worktree.path);
+
+      if (removeAction === CONFIRM_UNLINK_VALUE) {
+        const result = await unlinkWorktree(
+          this.repoRoot,
+          worktree.path,
+          isDirty,
+          forceLocked,
+        );
         if (result.success) {
           successCount++;
         } else {
           failCount++;
         }
-      } else if (action === CONFIRM_DELETE_VALUE) {
+      } else if (removeAction === CONFIRM_DELETE_VALUE) {
         if (!worktree.branch) {
           // Can't delete branch for detached HEAD, just unlink
-          const result = unlinkWorktree(this.repoRoot, worktree.path, isDirty);
+          const result = await unlinkWorktree(
+            this.repoRoot,
+            worktree.path,
+            isDirty,
+            forceLocked,
+          );
           if (result.success) {
             successCount++;
           } else {
             failCount++;
           }
         } else {
-          const result = deleteWorktree(
+          const result = await deleteWorktree(
             this.repoRoot,
             worktree.path,
             worktree.branch,
-            isDirty
+            isDirty,
+            forceLocked
           );
           if (result.success) {
             successCount++;
@@ -1934,23 +3212,23 @@ class WorktreeSelector {
 
     this.selectedForDelete.clear();
 
-    if (failCount === 0) {
-      const actionWord = action === CONFIRM_UNLINK_VALUE ? "unlinked" : "deleted";
-      this.setStatus(
-        `Successfully ${actionWord} ${successCount} worktree${successCount === 1 ? "" : "s"}.`,
-        "success"
-      );
-    } else {
-      this.setStatus(
-        `Completed with ${successCount} success, ${failCount} failed.`,
-        "warning"
-      );
-    }
-
-    this.hideConfirmDialog();
+    const skippedNote =
+      skippedCount > 0 ? ` Skipped ${skippedCount} locked worktree${skippedCount === 1 ? "" : "s"}.` : "";
+    const actionWord = removeAction === CONFIRM_UNLINK_VALUE ? "unlinked" : "deleted";
+    this.hideConfirmDialog(
+      failCount === 0
+        ? {
+            message: `Successfully ${actionWord} ${successCount} worktree${successCount === 1 ? "" : "s"}.${skippedNote}`,
+            level: skippedCount > 0 ? "warning" : "success",
+          }
+        : {
+            message: `Completed with ${successCount} success, ${failCount} failed.`,
+            level: "warning",
+          }
+    );
   }
 
-  private cleanup(shouldExit: boolean): void {
+  private cleanup(shouldExit: boolean, exitCode = 0): void {
     this.selectElement.blur();
     if (this.branchInput) {
       this.branchInput.blur();
@@ -1960,7 +3238,7 @@ class WorktreeSelector {
     }
     this.renderer.destroy();
     if (shouldExit) {
-      process.exit(0);
+      process.exit(exitCode);
     }
   }
 }